@@ -0,0 +1,47 @@
+-- Приведение данных существующей базы перед `prisma db push` / `prisma migrate dev`.
+-- Скрипт можно запускать повторно и на пустой базе: шаги без подходящих таблиц и значений ничего не делают.
+
+-- DocStatus.EXPORT удалён: документы в этом статусе считаются выгруженными (EXPORTED).
+-- Без этого шага MySQL не даст убрать значение из ENUM колонки, в которой оно ещё встречается
+SET @sql = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'InventoryDocument' AND COLUMN_NAME = 'status'
+      AND COLUMN_TYPE LIKE '%''EXPORT''%') > 0,
+  'UPDATE InventoryDocument SET status = ''EXPORTED'' WHERE status = ''EXPORT''',
+  'DO 0'
+);
+PREPARE stmt FROM @sql;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+-- Журнал изменений получил docSeq (курсор ТСД в порядке коммитов). Записи, сделанные до появления колонки,
+-- нумеруются в порядке seq, счётчик документа ставится на последний номер. Шаг выполняется после push
+-- и до запуска сервера, только для документов, в которых ещё нет записей с docSeq
+SET @sql = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'InventoryItemChange' AND COLUMN_NAME = 'docSeq') > 0,
+  'UPDATE InventoryItemChange c
+     JOIN (
+       SELECT id, ROW_NUMBER() OVER (PARTITION BY documentId ORDER BY seq) AS rn
+       FROM InventoryItemChange
+       WHERE documentId IN (SELECT id FROM InventoryDocument WHERE changeSeq = 0)
+     ) r ON r.id = c.id
+   SET c.docSeq = r.rn',
+  'DO 0'
+);
+PREPARE stmt FROM @sql;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @sql = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'InventoryDocument' AND COLUMN_NAME = 'changeSeq') > 0,
+  'UPDATE InventoryDocument d
+     JOIN (SELECT documentId, MAX(docSeq) AS last FROM InventoryItemChange GROUP BY documentId) c ON c.documentId = d.id
+   SET d.changeSeq = c.last
+   WHERE d.changeSeq = 0 AND c.last IS NOT NULL',
+  'DO 0'
+);
+PREPARE stmt FROM @sql;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
@@ -0,0 +1,85 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { UserRole } from '@prisma/client';
+import { AuthService, AuthIdentity } from './services/auth.service.js';
+import { InventoryService } from './services/inventory.service.js';
+import { ForbiddenError, UnauthorizedError } from './errors.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    identity: AuthIdentity | null;
+  }
+  interface FastifyContextConfig {
+    public?: boolean; // маршрут доступен без токена
+    allowQueryToken?: boolean; // токен можно передать в ?access_token= (EventSource не умеет заголовки)
+  }
+}
+
+// Кто к каким группам маршрутов допущен
+export const Roles = {
+  DOCUMENT_READ: ['COUNTER', 'SUPERVISOR', 'ADMIN'],
+  COUNT_WRITE: ['COUNTER', 'SUPERVISOR', 'ADMIN'],
+  REVISE: ['SUPERVISOR', 'ADMIN'],
+  SUPERVISE: ['SUPERVISOR', 'ADMIN'],
+  ONEC: ['INTEGRATION_1C'],
+  JOBS: ['SUPERVISOR', 'INTEGRATION_1C', 'ADMIN'], // статус фоновых задач (только своих, ADMIN — любых)
+  ADMIN: ['ADMIN'],
+} satisfies Record<string, UserRole[]>;
+
+function extractToken(request: FastifyRequest): string | null {
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim() || null;
+  if (request.routeOptions.config?.allowQueryToken) {
+    const { access_token } = request.query as { access_token?: string };
+    if (access_token) return access_token;
+  }
+  return null;
+}
+
+// Аутентификация всех маршрутов, кроме помеченных config.public и CORS preflight
+export function registerAuth(fastify: FastifyInstance) {
+  fastify.decorateRequest('identity', null);
+
+  fastify.addHook('onRequest', async (request) => {
+    if (request.method === 'OPTIONS' || request.routeOptions.config?.public) return;
+
+    const token = extractToken(request);
+    if (!token) {
+      throw new UnauthorizedError('Bearer token is required');
+    }
+    const identity = await AuthService.authenticate(token);
+    if (!identity) {
+      throw new UnauthorizedError('Invalid or revoked token');
+    }
+    request.identity = identity;
+  });
+}
+
+// Представление для счётчика: в слепом режиме ожидаемые количества скрываются
+export function isCounterView(request: FastifyRequest): boolean {
+  return request.identity?.role === 'COUNTER';
+}
+
+export function requireRole(roles: UserRole[]) {
+  return async (request: FastifyRequest) => {
+    if (!request.identity || !roles.includes(request.identity.role)) {
+      throw new ForbiddenError('Insufficient permissions');
+    }
+  };
+}
+
+// ТСД, привязанный к складу, видит только документы своего склада (:id или :warehouseCode в пути)
+export async function requireWarehouseScope(request: FastifyRequest) {
+  const scope = request.identity?.warehouseCode;
+  if (!scope) return;
+
+  const params = request.params as { id?: string; warehouseCode?: string };
+  let warehouseCode: string | null | undefined = params.warehouseCode;
+  if (params.id) {
+    // Несуществующий документ — пусть маршрут ответит 404 как обычно
+    warehouseCode = await InventoryService.getDocumentWarehouseCode(params.id);
+    if (warehouseCode === null) return;
+  }
+  if (warehouseCode !== undefined && warehouseCode !== scope) {
+    throw new ForbiddenError('Document belongs to another warehouse');
+  }
+}
@@ -0,0 +1,22 @@
+// CORS по списку разрешённых источников из ENV (CORS_ORIGINS=https://a.example,https://b.example).
+// '*' в списке разрешает любой источник; пустой список — кросс-доменные запросы запрещены.
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '')
+  .split(',')
+  .map((o) => o.trim())
+  .filter(Boolean);
+
+export function corsHeaders(origin: string | undefined): Record<string, string> {
+  let allowOrigin: string | null = null;
+  if (CORS_ORIGINS.includes('*')) allowOrigin = '*';
+  else if (origin && CORS_ORIGINS.includes(origin)) allowOrigin = origin;
+  if (!allowOrigin) return {};
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Methods': 'GET,POST,PATCH,PUT,DELETE,OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Request-Id',
+    'Access-Control-Expose-Headers': 'X-Request-Id, X-Next-Cursor',
+    'Access-Control-Max-Age': '86400',
+    ...(allowOrigin === '*' ? {} : { Vary: 'Origin' }),
+  };
+}
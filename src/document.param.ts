@@ -0,0 +1,11 @@
+import { FastifyRequest } from 'fastify';
+import { prisma } from './prisma.js';
+import { DocumentKeyType, DocumentResolver } from './services/document.resolver.js';
+
+// :id маршрута документа (id, externalId или номер 1С; ?by= уточняет, что именно) -> внутренний id.
+// Ставится после requireRole: requireWarehouseScope и сервисы дальше получают уже внутренний id.
+export async function resolveDocument(request: FastifyRequest) {
+  const params = request.params as { id: string };
+  const { by } = request.query as { by?: DocumentKeyType };
+  params.id = await DocumentResolver.resolve(prisma, params.id, by, request.identity?.warehouseCode);
+}
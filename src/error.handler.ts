@@ -0,0 +1,89 @@
+import { FastifyError, FastifyInstance, FastifyRequest } from 'fastify';
+import {
+  ApiError, AppError, BadRequestError, PayloadTooLargeError, UnsupportedMediaTypeError, fromPrismaError, logError,
+} from './errors.js';
+import { DATE_PATTERN, DECIMAL_PATTERN, QUANTITY_PATTERN } from './schemas/common.js';
+
+type ValidationIssue = NonNullable<FastifyError['validation']>[number];
+
+// Понятные сообщения для десятичных полей и дат вместо «must match pattern "^-?\d{1,12}…"»
+const PATTERN_MESSAGES: Record<string, string> = {
+  [DECIMAL_PATTERN]: 'must be a decimal string with up to 12 integer and 6 fractional digits',
+  [QUANTITY_PATTERN]: 'must be a non-negative decimal string with up to 12 integer and 6 fractional digits',
+  [DATE_PATTERN]: 'must be a date (2024-01-15) or date-time (2024-01-15T10:00:00)',
+};
+
+// Путь поля: body/items/0/countedQty; для отсутствующего поля — путь до него самого
+export function issuePath(context: string, issue: ValidationIssue): string {
+  const missing = (issue.params as { missingProperty?: string }).missingProperty;
+  return `${context}${issue.instancePath}${missing ? `/${missing}` : ''}`;
+}
+
+export function issueMessage(issue: ValidationIssue): string {
+  if (issue.keyword === 'pattern') {
+    const pattern = (issue.params as { pattern?: string }).pattern;
+    if (pattern && PATTERN_MESSAGES[pattern]) return PATTERN_MESSAGES[pattern];
+  }
+  if (issue.keyword === 'required') return 'is required';
+  if (issue.keyword === 'enum') {
+    return `must be one of: ${(issue.params as { allowedValues: unknown[] }).allowedValues.join(', ')}`;
+  }
+  return issue.message ?? 'is invalid';
+}
+
+// Ошибки Fastify (схема, разбор тела, лимиты) и Prisma — в ту же иерархию, что и ошибки сервисов
+function toAppError(error: FastifyError): AppError | null {
+  if (error instanceof AppError) return error;
+
+  if (error.validation) {
+    const context = error.validationContext ?? 'body';
+    const errors = error.validation.map((issue) => ({ path: issuePath(context, issue), message: issueMessage(issue) }));
+    return new BadRequestError(`${errors[0].path} ${errors[0].message}`, { errors });
+  }
+
+  const prismaError = fromPrismaError(error);
+  if (prismaError) return prismaError;
+
+  switch (error.statusCode) {
+    case 400: return new BadRequestError(error.message);
+    case 413: return new PayloadTooLargeError(error.message);
+    case 415: return new UnsupportedMediaTypeError(error.message);
+    default: return null;
+  }
+}
+
+function requestContext(request: FastifyRequest) {
+  return { requestId: request.id, method: request.method, url: request.url, actorId: request.identity?.actorId };
+}
+
+// Единственный обработчик ошибок: маршруты и хуки просто бросают AppError,
+// статус и тело ответа определяются здесь. Каждый ответ несёт requestId.
+export function registerErrorHandler(fastify: FastifyInstance) {
+  fastify.setErrorHandler((error: FastifyError, request, reply) => {
+    const appError = toAppError(error);
+
+    if (!appError) {
+      logError('Unhandled error', error, requestContext(request));
+      return reply.status(500).send({
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        requestId: request.id,
+      } as ApiError);
+    }
+
+    // Недоступность БД (503) — не вина клиента, её видно в логах со стеком исходной ошибки Prisma
+    if (appError.statusCode >= 500) {
+      logError(appError.message, error, { ...requestContext(request), code: appError.code });
+    }
+    return reply.status(appError.statusCode).send({ ...appError.toJSON(), requestId: request.id });
+  });
+
+  // Неизвестный маршрут — тот же формат, что и у остальных ошибок
+  fastify.setNotFoundHandler((request, reply) => {
+    return reply.status(404).send({
+      code: 'NOT_FOUND',
+      message: `Route ${request.method} ${request.url.split('?')[0]} not found`,
+      requestId: request.id,
+    } as ApiError);
+  });
+}
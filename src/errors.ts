@@ -0,0 +1,161 @@
+import { Prisma } from '@prisma/client';
+
+// Ошибка по полю запроса или строке документа (валидация схемы, разбор XML)
+export interface ErrorIssue {
+  line?: number;
+  path?: string;
+  message: string;
+}
+
+// Тело ответа с ошибкой: так его видят ТСД, 1С и интеграции
+export interface ApiError {
+  code: string;
+  message: string;
+  errors?: ErrorIssue[];
+  requestId?: string; // совпадает с заголовком X-Request-Id и со строкой в логе
+}
+
+interface AppErrorOptions {
+  code?: string; // уточнённый код вместо кода класса (RECOUNT_REQUIRED вместо CONFLICT)
+  errors?: ErrorIssue[];
+  details?: Record<string, unknown>; // дополнительные поля тела ответа
+}
+
+// Ожидаемые ошибки бизнес-логики. Статус ответа задаёт класс, а не маршрут:
+// обработчик ошибок (error.handler.ts) отдаёт их как есть, всё остальное — 500.
+export abstract class AppError extends Error {
+  abstract readonly statusCode: number;
+  readonly code: string;
+  readonly errors?: ErrorIssue[];
+  readonly details?: Record<string, unknown>;
+
+  protected constructor(defaultCode: string, message: string, options: AppErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code ?? defaultCode;
+    this.errors = options.errors;
+    this.details = options.details;
+  }
+
+  toJSON(): ApiError {
+    return {
+      ...this.details,
+      code: this.code,
+      message: this.message,
+      ...(this.errors ? { errors: this.errors } : {}),
+    };
+  }
+}
+
+export class BadRequestError extends AppError {
+  readonly statusCode = 400;
+  constructor(message: string, options?: AppErrorOptions) {
+    super('BAD_REQUEST', message, options);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  readonly statusCode = 401;
+  constructor(message: string, options?: AppErrorOptions) {
+    super('UNAUTHORIZED', message, options);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  readonly statusCode = 403;
+  constructor(message: string, options?: AppErrorOptions) {
+    super('FORBIDDEN', message, options);
+  }
+}
+
+export class NotFoundError extends AppError {
+  readonly statusCode = 404;
+  constructor(message: string, options?: AppErrorOptions) {
+    super('NOT_FOUND', message, options);
+  }
+}
+
+export class ConflictError extends AppError {
+  readonly statusCode = 409;
+  constructor(message: string, options?: AppErrorOptions) {
+    super('CONFLICT', message, options);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  readonly statusCode = 413;
+  constructor(message: string, options?: AppErrorOptions) {
+    super('PAYLOAD_TOO_LARGE', message, options);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  readonly statusCode = 415;
+  constructor(message: string, options?: AppErrorOptions) {
+    super('UNSUPPORTED_MEDIA_TYPE', message, options);
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  readonly statusCode = 422;
+  constructor(message: string, options?: AppErrorOptions) {
+    super('UNPROCESSABLE_ENTITY', message, options);
+  }
+}
+
+// Временная недоступность (БД, пул соединений): клиент может повторить запрос позже
+export class ServiceUnavailableError extends AppError {
+  readonly statusCode = 503;
+  constructor(message: string, options?: AppErrorOptions) {
+    super('SERVICE_UNAVAILABLE', message, options);
+  }
+}
+
+// Ошибки Prisma, у которых есть осмысленный HTTP-статус. Остальные — 500.
+export function fromPrismaError(error: unknown): AppError | null {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    switch (error.code) {
+      case 'P2000': {
+        // Строка длиннее колонки, которую не ограничила схема запроса
+        const column = (error.meta as { column_name?: string } | undefined)?.column_name;
+        return new BadRequestError(`Value is too long${column ? ` for column ${column}` : ''}`, {
+          code: 'VALIDATION_ERROR',
+          ...(column ? { errors: [{ path: column, message: 'is too long' }] } : {}),
+        });
+      }
+      case 'P2002': {
+        // Уникальный индекс: дубль externalId, sku в документе, кода склада ...
+        const target = (error.meta as { target?: string | string[] } | undefined)?.target;
+        const fields = Array.isArray(target) ? target.join(', ') : target;
+        return new ConflictError(`Record already exists${fields ? ` (${fields})` : ''}`, { code: 'UNIQUE_VIOLATION' });
+      }
+      case 'P2034':
+        // Дедлок / конфликт сериализации транзакции MySQL — повтор запроса обычно проходит
+        return new ConflictError('Transaction conflict with a concurrent request, retry the request', {
+          code: 'TRANSACTION_CONFLICT',
+        });
+      case 'P2025':
+        return new NotFoundError('Record not found');
+      case 'P2003':
+        return new ConflictError('Operation violates a reference to another record', { code: 'REFERENCE_VIOLATION' });
+      case 'P2024':
+      case 'P2028':
+        // Пул соединений исчерпан / транзакция не успела стартовать или истекла
+        return new ServiceUnavailableError('Database is busy, retry the request');
+      default:
+        return null;
+    }
+  }
+  if (error instanceof Prisma.PrismaClientInitializationError) {
+    return new ServiceUnavailableError('Database is unavailable');
+  }
+  return null;
+}
+
+// Одна JSON-строка на ошибку: поля, стек и requestId ищутся в логах без разбора текста
+export function logError(message: string, error: unknown, context: Record<string, unknown> = {}) {
+  const err = error instanceof Error
+    ? { type: error.name, message: error.message, code: (error as { code?: unknown }).code, stack: error.stack }
+    : { message: String(error) };
+  console.error(JSON.stringify({ level: 'error', time: new Date().toISOString(), msg: message, ...context, err }));
+}
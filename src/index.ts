@@ -1,60 +1,152 @@
+import { randomUUID } from 'node:crypto';
 import Fastify from 'fastify';
+import swagger from '@fastify/swagger';
+import swaggerUi from '@fastify/swagger-ui';
 import { prisma } from './prisma.js';
+import { registerAuth } from './auth.js';
+import { corsHeaders } from './cors.js';
+import { registerErrorHandler } from './error.handler.js';
+import { sharedSchemas } from './schemas/common.js';
+import { importPayloadSchema, exportResponseSchema } from './schemas/onec.js';
 import { onecImportRoute } from './routes/onec.import.js';
+import { onecImportSessionsRoute } from './routes/onec.import.sessions.js';
 import { inventoryGetRoute } from './routes/inventory.get.js';
 import { inventoryListRoute } from './routes/inventory.list.js';
 import { inventoryItemsRoute } from './routes/inventory.items.js';
 import { inventoryItemsV2Route } from './routes/inventory.items.v2.js';
+import { inventorySyncRoute } from './routes/inventory.sync.js';
+import { inventoryEventsRoute } from './routes/inventory.events.js';
 import { inventoryReviseRoute } from './routes/inventory.revise.js';
+import { inventoryReopenRoute } from './routes/inventory.reopen.js';
+import { inventoryReconciliationRoute } from './routes/inventory.reconciliation.js';
+import { inventorySettingsRoute } from './routes/inventory.settings.js';
+import { inventoryHistoryRoute } from './routes/inventory.history.js';
+import { inventorySurplusRoute } from './routes/inventory.surplus.js';
+import { inventoryReportsRoute } from './routes/inventory.reports.js';
+import { recountTasksRoute } from './routes/recount.tasks.js';
+import { countAssignmentsRoute } from './routes/count.assignments.js';
+import { inventoryLocationRoute } from './routes/inventory.location.js';
+import { recountTolerancesRoute } from './routes/recount.tolerances.js';
 import { onecExportRoute } from './routes/onec.export.js';
 import { onecAckRoute } from './routes/onec.ack.js';
+import { onecProductsRoute } from './routes/onec.products.js';
+import { productsSearchRoute } from './routes/products.search.js';
 import { warehouseListRoute } from './routes/warehouse.list.js';
+import { warehouseSettingsRoute } from './routes/warehouse.settings.js';
+import { warehouseLocationsRoute } from './routes/warehouse.locations.js';
+import { adminDevicesRoute } from './routes/admin.devices.js';
+import { adminTokensRoute } from './routes/admin.tokens.js';
+import { adminWebhooksRoute } from './routes/admin.webhooks.js';
+import { jobsGetRoute } from './routes/jobs.get.js';
+import { JobQueue } from './services/job.queue.js';
+import { WebhookDispatcher } from './services/webhook.dispatcher.js';
 
 const PORT = parseInt(process.env.PORT || '3000');
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
 
 const fastify = Fastify({
   logger: false,
   // Увеличенный лимит тела (по умолчанию ~1MB). Ставим 25MB, можно настроить через ENV.
   bodyLimit: parseInt(process.env.BODY_LIMIT_BYTES || `${60 * 1024 * 1024}`),
+  // Все нарушения схемы сразу, а не только первое
+  ajv: { customOptions: { allErrors: true } },
+  // Correlation ID: X-Request-Id клиента (ТСД, 1С, балансировщик) или новый UUID
+  requestIdHeader: false,
+  genReqId: (req) => {
+    const header = req.headers['x-request-id'];
+    return typeof header === 'string' && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+  },
 });
 
-// CORS: разрешить запросы с любого сайта (без внешних зависимостей)
+// JSON Schema: общие схемы ($ref)
+for (const schema of [...sharedSchemas, importPayloadSchema, exportResponseSchema]) fastify.addSchema(schema);
+
+// Все ошибки (сервисы, схемы, Prisma, неизвестные маршруты) — один обработчик и один формат
+registerErrorHandler(fastify);
+
+// OpenAPI из схем маршрутов: /docs (Swagger UI) и /docs/json
+fastify.register(swagger, {
+  openapi: {
+    info: { title: 'Inventory API', description: 'Инвентаризация: ТСД, супервизоры, обмен с 1С', version: '1.0.0' },
+    components: { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } } },
+    security: [{ bearerAuth: [] }],
+  },
+  // components.schemas под именами $id (ApiError, InventoryDocument ...), а не def-0, def-1
+  refResolver: { buildLocalReference: (json, _baseUri, _fragment, i) => (json.$id as string) || `def-${i}` },
+  // body.content (тело в нескольких форматах) @fastify/swagger 8 не понимает: в документацию идёт JSON-вариант,
+  // остальные форматы перечислены в description маршрута
+  transform: ({ schema, url }) => {
+    const content = (schema?.body as { content?: Record<string, { schema: unknown }> } | undefined)?.content;
+    if (!content) return { schema, url };
+    return { schema: { ...schema, body: content['application/json'].schema }, url };
+  },
+});
+
+// CORS: только источники из CORS_ORIGINS (без внешних зависимостей); X-Request-Id — в каждом ответе
 fastify.addHook('onSend', async (request, reply, payload) => {
-  reply.header('Access-Control-Allow-Origin', '*');
-  reply.header('Access-Control-Allow-Methods', 'GET,POST,PATCH,PUT,DELETE,OPTIONS');
-  reply.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  reply.header('Access-Control-Max-Age', '86400');
+  reply.headers({ ...corsHeaders(request.headers.origin), 'X-Request-Id': request.id });
   return payload;
 });
 
-fastify.options('*', async (request, reply) => {
+fastify.options('*', { config: { public: true }, schema: { hide: true } }, async (request, reply) => {
   reply
-    .header('Access-Control-Allow-Origin', '*')
-    .header('Access-Control-Allow-Methods', 'GET,POST,PATCH,PUT,DELETE,OPTIONS')
-    .header('Access-Control-Allow-Headers', 'Content-Type, Authorization')
-    .header('Access-Control-Max-Age', '86400')
+    .headers(corsHeaders(request.headers.origin))
     .status(204)
     .send();
 });
 
+// Аутентификация: Bearer-токен обязателен для всех роутов
+registerAuth(fastify);
+
+// Документация открыта без токена
+fastify.addHook('onRoute', (route) => {
+  if (route.url.startsWith('/docs')) route.config = { ...route.config, public: true };
+});
+fastify.register(swaggerUi, { routePrefix: '/docs' });
+
 // Регистрация роутов
 fastify.register(onecImportRoute);
+fastify.register(onecImportSessionsRoute);
 fastify.register(inventoryGetRoute);
 fastify.register(inventoryListRoute);
 fastify.register(inventoryItemsRoute);
 fastify.register(inventoryItemsV2Route);
+fastify.register(inventorySyncRoute);
+fastify.register(inventoryEventsRoute);
 fastify.register(inventoryReviseRoute);
+fastify.register(inventoryReopenRoute);
+fastify.register(inventoryReconciliationRoute);
+fastify.register(inventorySettingsRoute);
+fastify.register(inventoryHistoryRoute);
+fastify.register(inventorySurplusRoute);
+fastify.register(inventoryReportsRoute);
+fastify.register(inventoryLocationRoute);
+fastify.register(recountTasksRoute);
+fastify.register(countAssignmentsRoute);
+fastify.register(recountTolerancesRoute);
 fastify.register(onecExportRoute);
 fastify.register(onecAckRoute);
+fastify.register(onecProductsRoute);
+fastify.register(productsSearchRoute);
 fastify.register(warehouseListRoute);
+fastify.register(warehouseSettingsRoute);
+fastify.register(warehouseLocationsRoute);
+fastify.register(adminDevicesRoute);
+fastify.register(adminTokensRoute);
+fastify.register(adminWebhooksRoute);
+fastify.register(jobsGetRoute);
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
+  JobQueue.stop();
+  WebhookDispatcher.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
+  JobQueue.stop();
+  WebhookDispatcher.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -63,6 +155,10 @@ const start = async () => {
   try {
     await fastify.listen({ port: PORT, host: '0.0.0.0' });
     console.log(`Server listening on port ${PORT}`);
+    // Воркер фоновых задач; задачи, прерванные рестартом, он подхватит сам
+    JobQueue.start();
+    // Отправка вебхуков из outbox; недоставленные до рестарта уйдут после него
+    WebhookDispatcher.start();
   } catch (err) {
     console.error('Error starting server:', err);
     fastify.log.error(err);
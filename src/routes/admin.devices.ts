@@ -0,0 +1,37 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { AuthService, CreateDevicePayload } from '../services/auth.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { createDeviceSchema, listDevicesSchema, updateDeviceSchema } from '../schemas/admin.js';
+
+export async function adminDevicesRoute(fastify: FastifyInstance) {
+  // Регистрация ТСД за складом
+  fastify.post('/admin/devices', {
+    schema: createDeviceSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const payload = request.body as CreateDevicePayload;
+
+    const device = await AuthService.createDevice(payload);
+    return reply.status(201).send(device);
+  });
+
+  fastify.get('/admin/devices', {
+    schema: listDevicesSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const devices = await AuthService.listDevices();
+    return reply.status(200).send(devices);
+  });
+
+  // Блокировка / разблокировка ТСД (токены заблокированного устройства перестают работать)
+  fastify.patch('/admin/devices/:code', {
+    schema: updateDeviceSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { code } = request.params as { code: string };
+    const body = request.body as { isActive: boolean };
+
+    const device = await AuthService.setDeviceActive(code, body.isActive);
+    return reply.status(200).send(device);
+  });
+}
@@ -0,0 +1,34 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { AuthService, IssueTokenPayload } from '../services/auth.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { issueTokenSchema, listTokensSchema, revokeTokenSchema } from '../schemas/admin.js';
+
+export async function adminTokensRoute(fastify: FastifyInstance) {
+  // Выпуск API-токена; значение токена возвращается только в этом ответе
+  fastify.post('/admin/tokens', {
+    schema: issueTokenSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const payload = request.body as IssueTokenPayload;
+
+    const token = await AuthService.issueToken(payload);
+    return reply.status(201).send(token);
+  });
+
+  fastify.get('/admin/tokens', {
+    schema: listTokensSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const tokens = await AuthService.listTokens();
+    return reply.status(200).send(tokens);
+  });
+
+  fastify.delete('/admin/tokens/:id', {
+    schema: revokeTokenSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const result = await AuthService.revokeToken(id);
+    return reply.status(200).send(result);
+  });
+}
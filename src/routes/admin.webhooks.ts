@@ -0,0 +1,59 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { WebhookEndpointPayload, WebhookEndpointUpdate, WebhookService } from '../services/webhook.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { createWebhookSchema, listWebhooksSchema, updateWebhookSchema, listDeliveriesSchema, retryDeliverySchema } from '../schemas/admin.js';
+
+export async function adminWebhooksRoute(fastify: FastifyInstance) {
+  // Регистрация получателя вебхуков; секрет подписи возвращается только в этом ответе
+  fastify.post('/admin/webhooks', {
+    schema: createWebhookSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const payload = request.body as WebhookEndpointPayload;
+
+    const endpoint = await WebhookService.createEndpoint(payload);
+    return reply.status(201).send(endpoint);
+  });
+
+  fastify.get('/admin/webhooks', {
+    schema: listWebhooksSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const endpoints = await WebhookService.listEndpoints();
+    return reply.status(200).send(endpoints);
+  });
+
+  // Изменение получателя: url, события, включение/отключение, ротация секрета
+  fastify.patch('/admin/webhooks/:id', {
+    schema: updateWebhookSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const update = (request.body ?? {}) as WebhookEndpointUpdate;
+
+    const endpoint = await WebhookService.updateEndpoint(id, update);
+    return reply.status(200).send(endpoint);
+  });
+
+  // Журнал доставок получателя: статус, число попыток, код ответа и ошибка каждой попытки
+  fastify.get('/admin/webhooks/:id/deliveries', {
+    schema: listDeliveriesSchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const { limit } = request.query as { limit: number };
+
+    const deliveries = await WebhookService.listDeliveries(id, limit);
+    return reply.status(200).send(deliveries);
+  });
+
+  // Повторная отправка доставки в статусе FAILED
+  fastify.post('/admin/webhook-deliveries/:id/retry', {
+    schema: retryDeliverySchema,
+    preHandler: requireRole(Roles.ADMIN),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const result = await WebhookService.retryDelivery(id);
+    return reply.status(200).send(result);
+  });
+}
@@ -0,0 +1,89 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { CountAssignmentStatus } from '@prisma/client';
+import {
+  CountAssignmentPayload, CountAssignmentService, CountAssignmentUpdate, SplitPayload,
+} from '../services/count.assignment.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import {
+  createAssignmentSchema, deleteAssignmentSchema, documentAssignmentsSchema, myAssignmentsSchema, progressSchema,
+  splitAssignmentsSchema, updateAssignmentSchema,
+} from '../schemas/location.js';
+
+export async function countAssignmentsRoute(fastify: FastifyInstance) {
+  // Задания документа с охватом (место, диапазон SKU, список строк) и назначенным счётчиком
+  fastify.get('/inventory-documents/:id/assignments', {
+    schema: documentAssignmentsSchema,
+    preHandler: [requireRole(Roles.DOCUMENT_READ), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const { status } = request.query as { status?: CountAssignmentStatus };
+
+    const assignments = await CountAssignmentService.listForDocument(id, status);
+    return reply.status(200).send(assignments);
+  });
+
+  fastify.post('/inventory-documents/:id/assignments', {
+    schema: createAssignmentSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const payload = request.body as CountAssignmentPayload;
+
+    const assignment = await CountAssignmentService.create(id, payload, request.identity!.actorId);
+    return reply.status(201).send(assignment);
+  });
+
+  // Задание на каждую зону / ряд / ячейку склада или parts диапазонов SKU; счётчики — из assignees или потом через PATCH
+  fastify.post('/inventory-documents/:id/assignments/split', {
+    schema: splitAssignmentsSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const payload = request.body as SplitPayload;
+
+    const assignments = await CountAssignmentService.split(id, payload, request.identity!.actorId);
+    return reply.status(200).send(assignments);
+  });
+
+  // Посчитано / ожидает по каждому заданию и каждому счётчику
+  fastify.get('/inventory-documents/:id/progress', {
+    schema: progressSchema,
+    preHandler: [requireRole(Roles.DOCUMENT_READ), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const progress = await CountAssignmentService.progress(id);
+    return reply.status(200).send(progress);
+  });
+
+  // Открытые задания текущего счётчика (ТСД или пользователя)
+  fastify.get('/count-assignments/my', {
+    schema: myAssignmentsSchema,
+    preHandler: requireRole(Roles.COUNT_WRITE),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const assignments = await CountAssignmentService.listForAssignee(request.identity!.actorId);
+    return reply.status(200).send(assignments);
+  });
+
+  fastify.patch('/count-assignments/:assignmentId', {
+    schema: updateAssignmentSchema,
+    preHandler: requireRole(Roles.SUPERVISE),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { assignmentId } = request.params as { assignmentId: string };
+    const payload = request.body as CountAssignmentUpdate;
+
+    const assignment = await CountAssignmentService.update(assignmentId, payload);
+    return reply.status(200).send(assignment);
+  });
+
+  fastify.delete('/count-assignments/:assignmentId', {
+    schema: deleteAssignmentSchema,
+    preHandler: requireRole(Roles.SUPERVISE),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { assignmentId } = request.params as { assignmentId: string };
+
+    const result = await CountAssignmentService.delete(assignmentId);
+    return reply.status(200).send(result);
+  });
+}
@@ -0,0 +1,42 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { DocumentEvents, DocumentEvent } from '../services/document.events.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { corsHeaders } from '../cors.js';
+import { eventsSchema } from '../schemas/inventory.js';
+
+const HEARTBEAT_MS = parseInt(process.env.SSE_HEARTBEAT_MS || '25000');
+
+export async function inventoryEventsRoute(fastify: FastifyInstance) {
+  // Server-Sent Events: изменения строк, статусов и повторные импорты документа в реальном времени
+  fastify.get('/inventory-documents/:id/events', {
+    config: { allowQueryToken: true },
+    schema: eventsSchema,
+    preHandler: [requireRole(Roles.DOCUMENT_READ), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    // Документ уже найден resolveDocument: в :id — внутренний id
+    const { id: documentId } = request.params as { id: string };
+
+    // Дальше ответ пишем сами: хуки onSend (в т.ч. CORS) для него не вызываются
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'X-Request-Id': request.id,
+      ...corsHeaders(request.headers.origin),
+    });
+    reply.raw.write(`event: ready\ndata: ${JSON.stringify({ documentId })}\n\n`);
+
+    const unsubscribe = DocumentEvents.subscribe(documentId, (event: DocumentEvent) => {
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    const heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), HEARTBEAT_MS);
+
+    request.raw.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+}
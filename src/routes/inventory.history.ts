@@ -0,0 +1,17 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { InventoryService } from '../services/inventory.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { statusHistorySchema } from '../schemas/inventory.js';
+
+export async function inventoryHistoryRoute(fastify: FastifyInstance) {
+  fastify.get('/inventory-documents/:id/status-history', {
+    schema: statusHistorySchema,
+    preHandler: [requireRole(Roles.DOCUMENT_READ), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const history = await InventoryService.getStatusHistory(id);
+    return reply.status(200).send(history);
+  });
+}
@@ -1,74 +1,30 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { InventoryService, UpdateItemsPayload, ApiError } from '../services/inventory.service.js';
+import { InventoryService, UpdateItemsPayload } from '../services/inventory.service.js';
+import { Roles, requireRole, requireWarehouseScope, isCounterView } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { updateItemsSchema } from '../schemas/inventory.js';
+import { BadRequestError, ForbiddenError } from '../errors.js';
 
 export async function inventoryItemsRoute(fastify: FastifyInstance) {
-  fastify.patch('/inventory-documents/:id/items', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const { id } = request.params as { id: string };
-      const payload = request.body as UpdateItemsPayload;
-
-      if (!id) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Document ID is required',
-        });
-      }
-
-      if (!payload.version || !Array.isArray(payload.items)) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Version and items array are required',
-        });
-      }
-
-      if (typeof payload.version !== 'number') {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Version must be a number',
-        });
+  fastify.patch('/inventory-documents/:id/items', {
+    schema: updateItemsSchema,
+    preHandler: [requireRole(Roles.COUNT_WRITE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const payload = request.body as UpdateItemsPayload;
+
+    // Формат полей проверяет схема, здесь — правила, которые в ней не выразить
+    for (const item of payload.items) {
+      if (!item.sku && !item.barcode && !item.serial) {
+        throw new BadRequestError('Either sku, barcode or serial must be provided for each item');
       }
 
-      // Validate items
-      for (const item of payload.items) {
-        if (!item.sku && !item.barcode) {
-          return reply.status(400).send({
-            code: 'BAD_REQUEST',
-            message: 'Either sku or barcode must be provided for each item',
-          });
-        }
-
-        // Validate quantities are valid numbers if provided
-        if (item.countedQty !== undefined && isNaN(parseFloat(item.countedQty))) {
-          return reply.status(400).send({
-            code: 'BAD_REQUEST',
-            message: 'Invalid countedQty format',
-          });
-        }
-
-        if (item.correctedQty !== undefined && isNaN(parseFloat(item.correctedQty))) {
-          return reply.status(400).send({
-            code: 'BAD_REQUEST',
-            message: 'Invalid correctedQty format',
-          });
-        }
+      if (request.identity!.role === 'COUNTER' && item.correctedQty !== undefined) {
+        throw new ForbiddenError('Counters can only submit countedQty and note');
       }
-
-      const result = await InventoryService.updateItems(id, payload);
-      return reply.status(200).send(result);
-    } catch (error) {
-      const apiError = error as ApiError;
-      if (apiError.code) {
-        const statusCode = apiError.code === 'NOT_FOUND' ? 404 : 
-                          apiError.code === 'CONFLICT' ? 409 :
-                          apiError.code === 'BAD_REQUEST' ? 400 : 500;
-        return reply.status(statusCode).send(apiError);
-      }
-      
-      console.error('Update items error:', error);
-      return reply.status(500).send({
-        code: 'INTERNAL_ERROR',
-        message: 'Internal server error',
-      });
     }
+
+    const result = await InventoryService.updateItems(id, payload, request.identity!.actorId, isCounterView(request));
+    return reply.status(200).send(result);
   });
 }
@@ -1,74 +1,43 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { InventoryServiceV2, UpdateItemsPayloadV2 } from '../services/inventory.service.v2.js';
-import { ApiError } from '../services/inventory.service.js';
+import { Roles, requireRole, requireWarehouseScope, isCounterView } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { updateItemsV2Schema, documentWithTimestampsSchema } from '../schemas/inventory.js';
+import { BadRequestError, ForbiddenError } from '../errors.js';
 
 export async function inventoryItemsV2Route(fastify: FastifyInstance) {
   // Новый эндпоинт с поддержкой merge
-  fastify.patch('/inventory-documents/:id/items/v2', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const { id } = request.params as { id: string };
-      const payload = request.body as UpdateItemsPayloadV2;
+  fastify.patch('/inventory-documents/:id/items/v2', {
+    schema: updateItemsV2Schema,
+    preHandler: [requireRole(Roles.COUNT_WRITE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const payload = request.body as UpdateItemsPayloadV2;
 
-      if (!id) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Document ID is required',
-        });
+    for (const item of payload.items) {
+      if (!item.sku && !item.barcode && !item.serial) {
+        throw new BadRequestError('Either sku, barcode or serial must be provided for each item');
       }
 
-      if (!payload.version || !Array.isArray(payload.items)) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Version and items array are required',
-        });
+      if (request.identity!.role === 'COUNTER' && item.correctedQty !== undefined) {
+        throw new ForbiddenError('Counters can only submit countedQty and note');
       }
-
-  const result = await InventoryServiceV2.updateItemsWithMerge(id, payload);
-  return reply.status(200).send(result);
-    } catch (error) {
-      const apiError = error as any;
-      if (apiError.code) {
-        const statusCode = apiError.code === 'NOT_FOUND' ? 404 : 
-                          apiError.code === 'CONFLICT' ? 409 :
-                          apiError.code === 'BAD_REQUEST' ? 400 : 500;
-        return reply.status(statusCode).send(apiError);
-      }
-      
-      console.error('Update items v2 error:', error);
-      return reply.status(500).send({
-        code: 'INTERNAL_ERROR',
-        message: 'Internal server error',
-      });
     }
+
+    const result = await InventoryServiceV2.updateItemsWithMerge(id, payload, request.identity!.actorId, isCounterView(request));
+    // 206: остальные изменения применены, по части строк клиент получает conflicts[] или rejected[]
+    const partial = result.conflicts.length > 0 || result.rejected.length > 0;
+    return reply.status(partial ? 206 : 200).send(result);
   });
 
   // Эндпоинт получения документа с timestamps
-  fastify.get('/inventory-documents/:id/with-timestamps', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const { id } = request.params as { id: string };
+  fastify.get('/inventory-documents/:id/with-timestamps', {
+    schema: documentWithTimestampsSchema,
+    preHandler: [requireRole(Roles.DOCUMENT_READ), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
 
-      if (!id) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Document ID is required',
-        });
-      }
-
-      const document = await InventoryServiceV2.getDocumentWithTimestamps(id);
-      return reply.status(200).send(document);
-    } catch (error) {
-      const apiError = error as any;
-      if (apiError.code) {
-        const statusCode = apiError.code === 'NOT_FOUND' ? 404 : 
-                          apiError.code === 'BAD_REQUEST' ? 400 : 500;
-        return reply.status(statusCode).send(apiError);
-      }
-      
-      console.error('Get document with timestamps error:', error);
-      return reply.status(500).send({
-        code: 'INTERNAL_ERROR',
-        message: 'Internal server error',
-      });
-    }
+    const document = await InventoryServiceV2.getDocumentWithTimestamps(id, isCounterView(request));
+    return reply.status(200).send(document);
   });
 }
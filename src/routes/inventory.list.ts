@@ -1,33 +1,37 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { InventoryService, ApiError } from '../services/inventory.service.js';
+import { DocumentListQuery, DocumentListService } from '../services/document.list.service.js';
+import { Roles, requireRole, requireWarehouseScope, isCounterView } from '../auth.js';
+import { listDocumentsSchema, listAllDocumentsSchema } from '../schemas/inventory.js';
+import { ForbiddenError } from '../errors.js';
 
 export async function inventoryListRoute(fastify: FastifyInstance) {
-  fastify.get('/inventory-documents/warehouse/:warehouseCode', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const { warehouseCode } = request.params as { warehouseCode: string };
+  // Документы склада. Ответ — массив, как раньше; страница задаётся limit, курсор следующей — в X-Next-Cursor
+  fastify.get('/inventory-documents/warehouse/:warehouseCode', {
+    schema: listDocumentsSchema,
+    preHandler: [requireRole(Roles.DOCUMENT_READ), requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { warehouseCode } = request.params as { warehouseCode: string };
+    const query = request.query as DocumentListQuery;
 
-      if (!warehouseCode) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Warehouse code is required',
-        });
-      }
+    const page = await DocumentListService.list({ ...query, warehouseCode }, isCounterView(request));
+    if (page.nextCursor) reply.header('X-Next-Cursor', page.nextCursor);
+    return reply.status(200).send(page.documents);
+  });
+
+  // Документы всех складов: по умолчанию сводка вместо строк, по 50 на страницу
+  fastify.get('/inventory-documents', {
+    schema: listAllDocumentsSchema,
+    preHandler: requireRole(Roles.DOCUMENT_READ),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = request.query as DocumentListQuery;
 
-      const documents = await InventoryService.getDocumentsByWarehouse(warehouseCode);
-      return reply.status(200).send(documents);
-    } catch (error) {
-      const apiError = error as ApiError;
-      if (apiError.code) {
-        const statusCode = apiError.code === 'NOT_FOUND' ? 404 : 
-                          apiError.code === 'BAD_REQUEST' ? 400 : 500;
-        return reply.status(statusCode).send(apiError);
-      }
-      
-      console.error('Get documents by warehouse error:', error);
-      return reply.status(500).send({
-        code: 'INTERNAL_ERROR',
-        message: 'Internal server error',
-      });
+    // ТСД склада видит только свой склад
+    const scope = request.identity!.warehouseCode;
+    if (scope && query.warehouseCode && query.warehouseCode !== scope) {
+      throw new ForbiddenError('Device is bound to another warehouse');
     }
+
+    const page = await DocumentListService.list({ ...query, warehouseCode: scope ?? query.warehouseCode }, isCounterView(request));
+    return reply.status(200).send(page);
   });
 }
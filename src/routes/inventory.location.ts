@@ -0,0 +1,30 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { LocationService } from '../services/location.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { getDeviceLocationSchema, setDeviceLocationSchema } from '../schemas/location.js';
+
+export async function inventoryLocationRoute(fastify: FastifyInstance) {
+  // Текущее место ТСД: к нему относятся пересчёты без явного location
+  fastify.get('/inventory-documents/:id/location', {
+    schema: getDeviceLocationSchema,
+    preHandler: [requireRole(Roles.COUNT_WRITE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const result = await LocationService.getDeviceLocation(id, request.identity!.actorId);
+    return reply.status(200).send(result);
+  });
+
+  // Скан этикетки места (код или штрихкод)
+  fastify.put('/inventory-documents/:id/location', {
+    schema: setDeviceLocationSchema,
+    preHandler: [requireRole(Roles.COUNT_WRITE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const { location } = request.body as { location: string | null };
+
+    const result = await LocationService.setDeviceLocation(id, request.identity!.actorId, location);
+    return reply.status(200).send(result);
+  });
+}
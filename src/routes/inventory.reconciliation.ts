@@ -0,0 +1,30 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { InventoryReconciliationService, DecisionPayload } from '../services/inventory.reconciliation.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { reconciliationSchema, decisionSchema } from '../schemas/inventory.js';
+
+export async function inventoryReconciliationRoute(fastify: FastifyInstance) {
+  // Сверка: счёт каждого устройства по строкам, итог и расхождение с 1С
+  fastify.get('/inventory-documents/:id/reconciliation', {
+    schema: reconciliationSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const result = await InventoryReconciliationService.getReconciliation(id);
+    return reply.status(200).send(result);
+  });
+
+  // Отклонить вклад устройства / выбрать устройство как эталонное / вернуть к принятому
+  fastify.put('/inventory-documents/:id/reconciliation/decisions', {
+    schema: decisionSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const payload = request.body as DecisionPayload;
+
+    const result = await InventoryReconciliationService.setDecision(id, payload, request.identity!.actorId);
+    return reply.status(200).send(result);
+  });
+}
@@ -0,0 +1,19 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { InventoryService } from '../services/inventory.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { reopenSchema } from '../schemas/inventory.js';
+
+export async function inventoryReopenRoute(fastify: FastifyInstance) {
+  // Переоткрытие зафиксированного документа (REVISED -> IMPORTED) — операция администратора
+  fastify.post('/inventory-documents/:id/reopen', {
+    schema: reopenSchema,
+    preHandler: [requireRole(Roles.ADMIN), resolveDocument],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const body = (request.body ?? {}) as { reason?: string };
+
+    const result = await InventoryService.reopen(id, request.identity!.actorId, body.reason);
+    return reply.status(200).send(result);
+  });
+}
@@ -0,0 +1,46 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { DocumentReport, DocumentReportService } from '../services/document.report.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { reportSchema, countSheetSchema } from '../schemas/inventory.js';
+
+// Имя файла с кириллицей: ASCII-запасной вариант + filename* по RFC 5987
+function attachment(report: DocumentReport, ext: string): string {
+  const name = `inventory-${report.onecNumber}.${ext}`;
+  const ascii = name.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, '');
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+export async function inventoryReportsRoute(fastify: FastifyInstance) {
+  // Документ в CSV/XLSX: учёт, посчитано, итог, отклонение, примечание и счёт каждого ТСД.
+  // ?discrepancies=true — только строки с отклонением
+  fastify.get('/inventory-documents/:id/report.:format', {
+    schema: reportSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, format } = request.params as { id: string; format: string };
+    const { discrepancies } = request.query as { discrepancies?: string };
+
+    const report = await DocumentReportService.build(id, { discrepanciesOnly: discrepancies === 'true' });
+    reply.header('Content-Disposition', attachment(report, format));
+    if (format === 'csv') {
+      return reply.status(200).type('text/csv; charset=utf-8').send(DocumentReportService.toCsv(report));
+    }
+    return reply
+      .status(200)
+      .type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+      .send(await DocumentReportService.toXlsx(report));
+  });
+
+  // Инвентаризационная опись (по форме ИНВ-3) для печати и подписи
+  fastify.get('/inventory-documents/:id/count-sheet', {
+    schema: countSheetSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const { discrepancies } = request.query as { discrepancies?: string };
+
+    const report = await DocumentReportService.build(id, { discrepanciesOnly: discrepancies === 'true' });
+    return reply.status(200).type('text/html; charset=utf-8').send(DocumentReportService.toHtml(report));
+  });
+}
@@ -1,34 +1,32 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { InventoryService, ApiError } from '../services/inventory.service.js';
+import { InventoryService } from '../services/inventory.service.js';
+import { JobQueue } from '../services/job.queue.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { reviseSchema } from '../schemas/inventory.js';
+import { ConflictError } from '../errors.js';
 
 export async function inventoryReviseRoute(fastify: FastifyInstance) {
-  fastify.post('/inventory-documents/:id/revise', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const { id } = request.params as { id: string };
+  fastify.post('/inventory-documents/:id/revise', {
+    schema: reviseSchema,
+    preHandler: [requireRole(Roles.REVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
 
-      if (!id) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Document ID is required',
-        });
-      }
+    const { async } = request.query as { async?: string };
+    if (async === 'true') {
+      const job = await JobQueue.enqueue('REVISE', { documentId: id, changedBy: request.identity!.actorId }, request.identity!.actorId);
+      return reply.status(202).send(job);
+    }
 
-      const result = await InventoryService.revise(id);
-      return reply.status(200).send(result);
-    } catch (error) {
-      const apiError = error as ApiError;
-      if (apiError.code) {
-        const statusCode = apiError.code === 'NOT_FOUND' ? 404 : 
-                          apiError.code === 'UNPROCESSABLE_ENTITY' ? 422 :
-                          apiError.code === 'BAD_REQUEST' ? 400 : 500;
-        return reply.status(statusCode).send(apiError);
-      }
-      
-      console.error('Revise error:', error);
-      return reply.status(500).send({
-        code: 'INTERNAL_ERROR',
-        message: 'Internal server error',
+    const result = await InventoryService.revise(id, request.identity!.actorId);
+    if (!result.success) {
+      // Документ остаётся в прежнем статусе, пока не закрыты задания на перепересчёт
+      throw new ConflictError(`${result.recountTasks.length} item(s) exceed discrepancy tolerance and must be recounted`, {
+        code: 'RECOUNT_REQUIRED',
+        details: { recountTasks: result.recountTasks },
       });
     }
+    return reply.status(200).send(result);
   });
 }
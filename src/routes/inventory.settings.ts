@@ -0,0 +1,20 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { AssignmentPolicy } from '@prisma/client';
+import { InventoryService } from '../services/inventory.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { documentSettingsSchema } from '../schemas/inventory.js';
+
+export async function inventorySettingsRoute(fastify: FastifyInstance) {
+  // Настройки документа: blindCount и assignmentPolicy (null — как у склада)
+  fastify.patch('/inventory-documents/:id/settings', {
+    schema: documentSettingsSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const body = request.body as { blindCount?: boolean | null; assignmentPolicy?: AssignmentPolicy | null };
+
+    const result = await InventoryService.updateDocumentSettings(id, body);
+    return reply.status(200).send(result);
+  });
+}
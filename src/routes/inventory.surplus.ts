@@ -0,0 +1,44 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { SurplusStatus } from '@prisma/client';
+import { SurplusService, SurplusCreateItemPayload } from '../services/surplus.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { surplusListSchema, surplusMapSchema, surplusCreateItemSchema } from '../schemas/inventory.js';
+
+export async function inventorySurplusRoute(fastify: FastifyInstance) {
+  // Излишки документа: сканы штрихкодов, которых нет в документе 1С
+  fastify.get('/inventory-documents/:id/surplus', {
+    schema: surplusListSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const { status } = request.query as { status?: SurplusStatus };
+
+    const lines = await SurplusService.list(id, status);
+    return reply.status(200).send(lines);
+  });
+
+  // Отнести излишек к существующей строке
+  fastify.post('/inventory-documents/:id/surplus/:lineId/map', {
+    schema: surplusMapSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, lineId } = request.params as { id: string; lineId: string };
+    const payload = request.body as { sku: string };
+
+    const result = await SurplusService.mapToItem(id, lineId, payload.sku, request.identity!.actorId);
+    return reply.status(200).send(result);
+  });
+
+  // Создать по излишку новую строку документа
+  fastify.post('/inventory-documents/:id/surplus/:lineId/create-item', {
+    schema: surplusCreateItemSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, lineId } = request.params as { id: string; lineId: string };
+    const payload = request.body as SurplusCreateItemPayload;
+
+    const result = await SurplusService.createItem(id, lineId, payload, request.identity!.actorId);
+    return reply.status(201).send(result);
+  });
+}
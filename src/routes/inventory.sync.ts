@@ -0,0 +1,43 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { InventorySyncService, SyncPayload } from '../services/inventory.sync.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { syncSchema, changesSchema } from '../schemas/inventory.js';
+import { BadRequestError, ForbiddenError } from '../errors.js';
+
+export async function inventorySyncRoute(fastify: FastifyInstance) {
+  // Пакет офлайн-операций ТСД с клиентскими opId (повтор безопасен)
+  fastify.post('/inventory-documents/:id/sync', {
+    schema: syncSchema,
+    preHandler: [requireRole(Roles.COUNT_WRITE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const payload = request.body as SyncPayload;
+
+    for (const op of payload.operations) {
+      if (!op.sku && !op.barcode && !op.serial && !op.location) {
+        throw new BadRequestError(`Either sku, barcode, serial or location must be provided for operation ${op.opId}`);
+      }
+
+      if (request.identity!.role === 'COUNTER' && op.correctedQty !== undefined) {
+        throw new ForbiddenError('Counters can only submit countedQty and note');
+      }
+    }
+
+    const result = await InventorySyncService.applyOperations(id, payload, request.identity!.actorId);
+    return reply.status(200).send(result);
+  });
+
+  // Строки, изменённые другими устройствами (не текущим) после курсора
+  fastify.get('/inventory-documents/:id/changes', {
+    schema: changesSchema,
+    preHandler: [requireRole(Roles.DOCUMENT_READ), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    // since и limit — числа с умолчаниями из схемы
+    const { since, limit } = request.query as { since: number; limit: number };
+
+    const page = await InventorySyncService.getChangesSince(id, since, request.identity!.actorId, limit);
+    return reply.status(200).send(page);
+  });
+}
@@ -0,0 +1,17 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { JobQueue } from '../services/job.queue.js';
+import { Roles, requireRole } from '../auth.js';
+import { jobGetSchema } from '../schemas/catalog.js';
+
+export async function jobsGetRoute(fastify: FastifyInstance) {
+  // Статус фоновой задачи: прогресс, попытки, ошибка и результат
+  fastify.get('/jobs/:id', {
+    schema: jobGetSchema,
+    preHandler: requireRole(Roles.JOBS),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const identity = request.identity!;
+    const job = await JobQueue.get(id, identity.actorId, identity.role === 'ADMIN');
+    return reply.status(200).send(job);
+  });
+}
@@ -1,34 +1,20 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { InventoryService, ApiError } from '../services/inventory.service.js';
+import { InventoryService } from '../services/inventory.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { ackSchema } from '../schemas/onec.js';
 
 export async function onecAckRoute(fastify: FastifyInstance) {
-  fastify.post('/onec/inventory-documents/:id/ack', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const { id } = request.params as { id: string };
+  // Подтверждение загрузки конкретного снимка выгрузки
+  fastify.post('/onec/inventory-documents/:id/ack', {
+    schema: ackSchema,
+    preHandler: [requireRole(Roles.ONEC), resolveDocument],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
 
-      if (!id) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Document ID is required',
-        });
-      }
+    const { snapshotId } = request.body as { snapshotId: string };
 
-      const result = await InventoryService.ack(id);
-      return reply.status(200).send(result);
-    } catch (error) {
-      const apiError = error as ApiError;
-      if (apiError.code) {
-        const statusCode = apiError.code === 'NOT_FOUND' ? 404 : 
-                          apiError.code === 'UNPROCESSABLE_ENTITY' ? 422 :
-                          apiError.code === 'BAD_REQUEST' ? 400 : 500;
-        return reply.status(statusCode).send(apiError);
-      }
-      
-      console.error('Ack error:', error);
-      return reply.status(500).send({
-        code: 'INTERNAL_ERROR',
-        message: 'Internal server error',
-      });
-    }
+    const result = await InventoryService.ack(id, snapshotId);
+    return reply.status(200).send(result);
   });
 }
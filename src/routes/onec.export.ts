@@ -1,34 +1,62 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { InventoryService, ApiError } from '../services/inventory.service.js';
+import { InventoryService } from '../services/inventory.service.js';
+import { JobQueue } from '../services/job.queue.js';
+import { ExportSnapshotService } from '../services/export.snapshot.service.js';
+import { OnecXml, XmlSchema } from '../services/onec.xml.js';
+import { Roles, requireRole } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { exportSchema, listSnapshotsSchema, getSnapshotSchema } from '../schemas/onec.js';
 
 export async function onecExportRoute(fastify: FastifyInstance) {
-  fastify.get('/onec/inventory-documents/:id/export', async (request: FastifyRequest, reply: FastifyReply) => {
-        try {
-      const { id } = request.params as { id: string };
+  fastify.get('/onec/inventory-documents/:id/export', {
+    schema: exportSchema,
+    preHandler: [requireRole(Roles.ONEC), resolveDocument],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
 
-      if (!id) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Document ID is required',
-        });
-      }
+    const { async, schema } = request.query as { async?: string; schema?: string };
 
-      const result = await InventoryService.exportFor1C(id);
-      return reply.status(200).send(result);
-    } catch (error) {
-      const apiError = error as ApiError;
-      if (apiError.code) {
-        const statusCode = apiError.code === 'NOT_FOUND' ? 404 : 
-                          apiError.code === 'UNPROCESSABLE_ENTITY' ? 422 :
-                          apiError.code === 'BAD_REQUEST' ? 400 : 500;
-        return reply.status(statusCode).send(apiError);
-      }
-      
-      console.error('Export error:', error);
-      return reply.status(500).send({
-        code: 'INTERNAL_ERROR',
-        message: 'Internal server error',
-      });
+    if (async === 'true') {
+      const job = await JobQueue.enqueue('EXPORT', { documentId: id, createdBy: request.identity!.actorId }, request.identity!.actorId);
+      return reply.status(202).send(job);
     }
+
+    const result = await InventoryService.exportFor1C(id, request.identity!.actorId);
+    // Accept: application/xml — тот же снимок в XML (по умолчанию CommerceML)
+    if (OnecXml.prefersXml(request.headers.accept)) {
+      return reply
+        .status(200)
+        .type('application/xml; charset=utf-8')
+        .send(OnecXml.buildExport(result, (schema as XmlSchema) ?? 'commerceml'));
+    }
+    return reply.status(200).send(result);
+  });
+
+  // Снимки выгрузки документа (без данных): что и когда выгружалось, какой снимок подтвердила 1С
+  fastify.get('/onec/inventory-documents/:id/export-snapshots', {
+    schema: listSnapshotsSchema,
+    preHandler: [requireRole(Roles.ONEC), resolveDocument],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const snapshots = await ExportSnapshotService.list(id);
+    return reply.status(200).send(snapshots);
+  });
+
+  // Снимок целиком — ровно те данные, что были выгружены
+  fastify.get('/onec/export-snapshots/:snapshotId', {
+    schema: getSnapshotSchema,
+    preHandler: requireRole(Roles.ONEC),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { snapshotId } = request.params as { snapshotId: string };
+    const { schema } = request.query as { schema?: string };
+
+    const snapshot = await ExportSnapshotService.get(snapshotId);
+    if (OnecXml.prefersXml(request.headers.accept)) {
+      return reply
+        .status(200)
+        .type('application/xml; charset=utf-8')
+        .send(OnecXml.buildExport(snapshot, (schema as XmlSchema) ?? 'commerceml'));
+    }
+    return reply.status(200).send(snapshot);
   });
 }
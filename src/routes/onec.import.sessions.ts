@@ -0,0 +1,79 @@
+import { Readable } from 'node:stream';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { ImportSessionService } from '../services/import.session.service.js';
+import { ImportHeader } from '../services/inventory.service.js';
+import { JobQueue } from '../services/job.queue.js';
+import { Roles, requireRole } from '../auth.js';
+import { beginSessionSchema, getSessionSchema, appendItemsSchema, commitSessionSchema, abortSessionSchema } from '../schemas/onec.js';
+
+export async function onecImportSessionsRoute(fastify: FastifyInstance) {
+  // NDJSON отдаём в маршрут как поток: порция читается построчно, без буферизации всего тела
+  fastify.addContentTypeParser('application/x-ndjson', (_request, payload, done) => {
+    done(null, payload);
+  });
+
+  // begin: шапка документа, строки приходят следующими запросами
+  fastify.post('/onec/import-sessions', {
+    schema: beginSessionSchema,
+    preHandler: requireRole(Roles.ONEC),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const header = request.body as ImportHeader;
+
+    const session = await ImportSessionService.begin(header, request.identity!.actorId);
+    return reply.status(201).send(session);
+  });
+
+  // Прогресс сессии
+  fastify.get('/onec/import-sessions/:sessionId', {
+    schema: getSessionSchema,
+    preHandler: requireRole(Roles.ONEC),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { sessionId } = request.params as { sessionId: string };
+    const session = await ImportSessionService.get(sessionId);
+    return reply.status(200).send(session);
+  });
+
+  // Порция строк: application/json { items: [...] } или application/x-ndjson (строка JSON на позицию)
+  fastify.post('/onec/import-sessions/:sessionId/items', {
+    schema: appendItemsSchema,
+    preHandler: requireRole(Roles.ONEC),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    if (request.body instanceof Readable) {
+      const result = await ImportSessionService.appendStream(sessionId, request.body);
+      return reply.status(200).send(result);
+    }
+
+    const payload = request.body as { items: unknown[] };
+
+    const result = await ImportSessionService.appendItems(sessionId, payload.items);
+    return reply.status(200).send(result);
+  });
+
+  // commit: документ создаётся/обновляется целиком одной транзакцией
+  fastify.post('/onec/import-sessions/:sessionId/commit', {
+    schema: commitSessionSchema,
+    preHandler: requireRole(Roles.ONEC),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { sessionId } = request.params as { sessionId: string };
+    const { async } = request.query as { async?: string };
+    if (async === 'true') {
+      await ImportSessionService.get(sessionId);
+      const job = await JobQueue.enqueue('IMPORT_SESSION_COMMIT', { sessionId }, request.identity!.actorId);
+      return reply.status(202).send(job);
+    }
+
+    const result = await ImportSessionService.commit(sessionId);
+    return reply.status(200).send(result);
+  });
+
+  fastify.delete('/onec/import-sessions/:sessionId', {
+    schema: abortSessionSchema,
+    preHandler: requireRole(Roles.ONEC),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { sessionId } = request.params as { sessionId: string };
+    const result = await ImportSessionService.abort(sessionId);
+    return reply.status(200).send(result);
+  });
+}
@@ -1,59 +1,35 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { InventoryService, ImportPayload, ApiError } from '../services/inventory.service.js';
+import { InventoryService, ImportPayload } from '../services/inventory.service.js';
+import { JobQueue } from '../services/job.queue.js';
+import { ImportSessionService } from '../services/import.session.service.js';
+import { OnecXml } from '../services/onec.xml.js';
+import { Roles, requireRole } from '../auth.js';
+import { importSchema } from '../schemas/onec.js';
 
 export async function onecImportRoute(fastify: FastifyInstance) {
-  fastify.post('/onec/inventory-documents/import', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const payload = request.body as ImportPayload;
-
-      // Basic validation
-      if (!payload.externalId || !payload.onecNumber || !payload.onecDate || !payload.warehouse?.code || !payload.items) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Missing required fields',
-        });
-      }
-
-      if (!Array.isArray(payload.items)) {
-        return reply.status(400).send({
-          code: 'BAD_REQUEST',
-          message: 'Items must be an array',
-        });
-      }
-
-      // Validate items
-      for (const item of payload.items) {
-        if (!item.sku || !item.name || !item.unit || !item.qtyFrom1C || !Array.isArray(item.barcodes)) {
-          return reply.status(400).send({
-            code: 'BAD_REQUEST',
-            message: 'Invalid item format',
-          });
-        }
+  // XML (CommerceML / «Инвентаризация товаров на складе») приходит строкой и разбирается в маршруте
+  fastify.addContentTypeParser(['application/xml', 'text/xml'], { parseAs: 'string' }, (_request, body, done) => {
+    done(null, body);
+  });
 
-        // Validate quantity is a valid number
-        if (isNaN(parseFloat(item.qtyFrom1C))) {
-          return reply.status(400).send({
-            code: 'BAD_REQUEST',
-            message: `Invalid qtyFrom1C for item ${item.sku}`,
-          });
-        }
-      }
+  fastify.post('/onec/inventory-documents/import', {
+    schema: importSchema,
+    preHandler: requireRole(Roles.ONEC),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const payload = OnecXml.isXmlContentType(request.headers['content-type'])
+      ? OnecXml.parseImport(request.body as string)
+      : request.body as ImportPayload;
 
-      const result = await InventoryService.importFrom1C(payload);
-      return reply.status(200).send(result);
-    } catch (error) {
-      const apiError = error as ApiError;
-      if (apiError.code) {
-        const statusCode = apiError.code === 'NOT_FOUND' ? 404 : 
-                          apiError.code === 'BAD_REQUEST' ? 400 : 500;
-        return reply.status(statusCode).send(apiError);
-      }
-      
-      console.error('Import error:', error);
-      return reply.status(500).send({
-        code: 'INTERNAL_ERROR',
-        message: 'Internal server error',
-      });
+    // ?async=true — импорт в фоне, статус через GET /jobs/:id. Строки сначала пишутся в сессию импорта,
+    // задача хранит только её id: тело документа в одну запись Job не помещается (max_allowed_packet)
+    const { async } = request.query as { async?: string };
+    if (async === 'true') {
+      const session = await ImportSessionService.stagePayload(payload, request.identity!.actorId);
+      const job = await JobQueue.enqueue('IMPORT_SESSION_COMMIT', { sessionId: session.id }, request.identity!.actorId);
+      return reply.status(202).send(job);
     }
+
+    const result = await InventoryService.importFrom1C(payload);
+    return reply.status(200).send(result);
   });
 }
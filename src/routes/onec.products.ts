@@ -0,0 +1,17 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { ProductService, ProductImportPayload } from '../services/product.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { productsImportSchema } from '../schemas/onec.js';
+
+export async function onecProductsRoute(fastify: FastifyInstance) {
+  // Синхронизация каталога товаров и штрихкодов из 1С
+  fastify.post('/onec/products/import', {
+    schema: productsImportSchema,
+    preHandler: requireRole(Roles.ONEC),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const payload = request.body as ProductImportPayload;
+
+    const result = await ProductService.importCatalog(payload);
+    return reply.status(200).send(result);
+  });
+}
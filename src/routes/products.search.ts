@@ -0,0 +1,26 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { ProductService } from '../services/product.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { productSearchSchema, productGetSchema } from '../schemas/catalog.js';
+
+export async function productsSearchRoute(fastify: FastifyInstance) {
+  // Поиск товара для ТСД: по штрихкоду, SKU или названию
+  fastify.get('/products/search', {
+    schema: productSearchSchema,
+    preHandler: requireRole(Roles.DOCUMENT_READ),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { q, limit } = request.query as { q: string; limit: number };
+
+    const products = await ProductService.search(q.trim(), limit);
+    return reply.status(200).send(products);
+  });
+
+  fastify.get('/products/:sku', {
+    schema: productGetSchema,
+    preHandler: requireRole(Roles.DOCUMENT_READ),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { sku } = request.params as { sku: string };
+    const product = await ProductService.getBySku(sku);
+    return reply.status(200).send(product);
+  });
+}
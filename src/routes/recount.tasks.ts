@@ -0,0 +1,64 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { RecountTaskStatus } from '@prisma/client';
+import { RecountService, RecountResultPayload, RecountTaskUpdate } from '../services/recount.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { resolveDocument } from '../document.param.js';
+import { documentTasksSchema, myTasksSchema, submitResultSchema, updateTaskSchema } from '../schemas/recount.js';
+import { BadRequestError } from '../errors.js';
+
+export async function recountTasksRoute(fastify: FastifyInstance) {
+  // Задания на перепересчёт по документу (с расхождением и исходными ТСД)
+  fastify.get('/inventory-documents/:id/recount-tasks', {
+    schema: documentTasksSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), resolveDocument, requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const { status } = request.query as { status?: RecountTaskStatus };
+
+    const tasks = await RecountService.listForDocument(id, status);
+    return reply.status(200).send(tasks);
+  });
+
+  // Открытые задания текущего ТСД
+  fastify.get('/recount-tasks/my', {
+    schema: myTasksSchema,
+    preHandler: requireRole(Roles.COUNT_WRITE),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const deviceCode = request.identity!.deviceCode;
+    if (!deviceCode) {
+      throw new BadRequestError('Token is not bound to a device');
+    }
+
+    const tasks = await RecountService.listForDevice(deviceCode);
+    return reply.status(200).send(tasks);
+  });
+
+  // Результат перепересчёта: назначенный ТСД или супервизор
+  fastify.post('/recount-tasks/:taskId/result', {
+    schema: submitResultSchema,
+    preHandler: requireRole(Roles.COUNT_WRITE),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { taskId } = request.params as { taskId: string };
+    const payload = request.body as RecountResultPayload;
+
+    const isSupervisor = (Roles.SUPERVISE as string[]).includes(request.identity!.role);
+    const task = await RecountService.submitResult(taskId, payload, request.identity!.actorId, isSupervisor);
+    return reply.status(200).send(task);
+  });
+
+  // Переназначение или отмена задания супервизором
+  fastify.patch('/recount-tasks/:taskId', {
+    schema: updateTaskSchema,
+    preHandler: requireRole(Roles.SUPERVISE),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { taskId } = request.params as { taskId: string };
+    const payload = request.body as RecountTaskUpdate;
+
+    if (!payload || (payload.assignedDeviceId === undefined && payload.status === undefined)) {
+      throw new BadRequestError('assignedDeviceId or status is required');
+    }
+
+    const task = await RecountService.updateTask(taskId, payload, request.identity!.actorId);
+    return reply.status(200).send(task);
+  });
+}
@@ -0,0 +1,39 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { RecountService, TolerancePayload } from '../services/recount.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { listTolerancesSchema, setToleranceSchema, deleteToleranceSchema } from '../schemas/recount.js';
+import { BadRequestError } from '../errors.js';
+
+export async function recountTolerancesRoute(fastify: FastifyInstance) {
+  fastify.get('/discrepancy-tolerances', {
+    schema: listTolerancesSchema,
+    preHandler: requireRole(Roles.SUPERVISE),
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const tolerances = await RecountService.listTolerances();
+    return reply.status(200).send(tolerances);
+  });
+
+  // Создать или заменить допуск для пары (warehouseCode, unit); пустое поле — «для всех»
+  fastify.put('/discrepancy-tolerances', {
+    schema: setToleranceSchema,
+    preHandler: requireRole(Roles.SUPERVISE),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const payload = request.body as TolerancePayload;
+
+    if (!payload || (payload.absoluteQty == null && payload.percent == null)) {
+      throw new BadRequestError('absoluteQty or percent is required');
+    }
+
+    const tolerance = await RecountService.setTolerance(payload);
+    return reply.status(200).send(tolerance);
+  });
+
+  fastify.delete('/discrepancy-tolerances/:id', {
+    schema: deleteToleranceSchema,
+    preHandler: requireRole(Roles.SUPERVISE),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const result = await RecountService.deleteTolerance(id);
+    return reply.status(200).send(result);
+  });
+}
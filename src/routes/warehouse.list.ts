@@ -1,17 +1,14 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { InventoryService } from '../services/inventory.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { warehouseListSchema } from '../schemas/catalog.js';
 
 export async function warehouseListRoute(fastify: FastifyInstance) {
-  fastify.get('/warehouses', async (_request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const data = await InventoryService.listWarehouses();
-      return reply.status(200).send(data);
-    } catch (error) {
-      console.error('List warehouses error:', error);
-      return reply.status(500).send({
-        code: 'INTERNAL_ERROR',
-        message: 'Internal server error',
-      });
-    }
+  fastify.get('/warehouses', {
+    schema: warehouseListSchema,
+    preHandler: requireRole(Roles.DOCUMENT_READ),
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const data = await InventoryService.listWarehouses();
+    return reply.status(200).send(data);
   });
 }
@@ -0,0 +1,30 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { LocationInput, LocationService } from '../services/location.service.js';
+import { Roles, requireRole, requireWarehouseScope } from '../auth.js';
+import { listLocationsSchema, upsertLocationsSchema } from '../schemas/location.js';
+
+export async function warehouseLocationsRoute(fastify: FastifyInstance) {
+  // Места хранения склада (зоны, ряды, ячейки) плоским списком с кодом родителя
+  fastify.get('/warehouses/:warehouseCode/locations', {
+    schema: listLocationsSchema,
+    preHandler: [requireRole(Roles.DOCUMENT_READ), requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { warehouseCode } = request.params as { warehouseCode: string };
+    const { includeInactive } = request.query as { includeInactive: boolean };
+
+    const locations = await LocationService.list(warehouseCode, includeInactive);
+    return reply.status(200).send(locations);
+  });
+
+  // Загрузка мест пакетом: новые создаются, существующие (по коду) обновляются, удаления нет — только isActive
+  fastify.put('/warehouses/:warehouseCode/locations', {
+    schema: upsertLocationsSchema,
+    preHandler: [requireRole(Roles.SUPERVISE), requireWarehouseScope],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { warehouseCode } = request.params as { warehouseCode: string };
+    const { locations } = request.body as { locations: LocationInput[] };
+
+    const result = await LocationService.upsert(warehouseCode, locations);
+    return reply.status(200).send(result);
+  });
+}
@@ -0,0 +1,19 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { AssignmentPolicy } from '@prisma/client';
+import { InventoryService } from '../services/inventory.service.js';
+import { Roles, requireRole } from '../auth.js';
+import { warehouseSettingsSchema } from '../schemas/catalog.js';
+
+export async function warehouseSettingsRoute(fastify: FastifyInstance) {
+  // Настройки склада по умолчанию для его документов: blindCount, assignmentPolicy
+  fastify.patch('/warehouses/:code/settings', {
+    schema: warehouseSettingsSchema,
+    preHandler: requireRole(Roles.SUPERVISE),
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { code } = request.params as { code: string };
+    const body = request.body as { blindCount?: boolean; assignmentPolicy?: AssignmentPolicy };
+
+    const warehouse = await InventoryService.updateWarehouseSettings(code, body);
+    return reply.status(200).send(warehouse);
+  });
+}
@@ -0,0 +1,229 @@
+import { WEBHOOK_EVENTS } from '../services/webhook.service.js';
+import { dateTime, errorResponses, nullable, nullableDateTime, str, successResponse } from './common.js';
+
+const devicesTags = ['Администрирование: устройства и токены'];
+const webhooksTags = ['Администрирование: вебхуки'];
+
+const device = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    code: { type: 'string' },
+    name: { type: 'string' },
+    warehouseId: { type: 'string' },
+    isActive: { type: 'boolean' },
+    createdAt: dateTime,
+    warehouse: { $ref: 'Warehouse#' },
+  },
+  additionalProperties: true,
+} as const;
+
+const idParams = { type: 'object', required: ['id'], properties: { id: { type: 'string', minLength: 1 } } } as const;
+
+const httpUrl = { type: 'string', format: 'uri', pattern: '^https?://', maxLength: 2048 } as const;
+const eventList = {
+  type: 'array',
+  items: { type: 'string', enum: [...WEBHOOK_EVENTS] },
+  minItems: 1,
+  uniqueItems: true,
+} as const;
+
+const webhookEndpoint = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    url: { type: 'string' },
+    events: { type: 'array', items: { type: 'string' } },
+    isActive: { type: 'boolean' },
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    warehouse: { type: ['object', 'null'], properties: { code: { type: 'string' } } },
+    secret: { type: 'string', description: 'Только при создании и ротации' },
+  },
+  additionalProperties: true,
+} as const;
+
+export const createDeviceSchema = {
+  tags: devicesTags,
+  summary: 'Регистрация ТСД за складом',
+  body: {
+    type: 'object',
+    required: ['code', 'name', 'warehouseCode'],
+    properties: { code: str(191), name: str(255), warehouseCode: str(191) },
+    additionalProperties: false,
+  },
+  response: { 201: device, ...errorResponses(400, 404, 409, 500) },
+};
+
+export const listDevicesSchema = {
+  tags: devicesTags,
+  summary: 'Устройства',
+  response: { 200: { type: 'array', items: device }, ...errorResponses(500) },
+};
+
+export const updateDeviceSchema = {
+  tags: devicesTags,
+  summary: 'Блокировка / разблокировка ТСД',
+  params: { type: 'object', required: ['code'], properties: { code: str(191) } },
+  body: {
+    type: 'object',
+    required: ['isActive'],
+    properties: { isActive: { type: 'boolean' } },
+    additionalProperties: false,
+  },
+  response: { 200: device, ...errorResponses(400, 404, 500) },
+};
+
+export const issueTokenSchema = {
+  tags: devicesTags,
+  summary: 'Выпуск API-токена (значение возвращается один раз)',
+  body: {
+    type: 'object',
+    required: ['name', 'role'],
+    properties: {
+      name: str(191),
+      role: { type: 'string', enum: ['COUNTER', 'SUPERVISOR', 'INTEGRATION_1C', 'ADMIN'] },
+      deviceCode: { ...str(191), description: 'Токен ТСД: склад берётся из устройства' },
+    },
+    additionalProperties: false,
+  },
+  response: {
+    201: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        role: { type: 'string' },
+        deviceCode: nullable('string'),
+        token: { type: 'string' },
+      },
+    },
+    ...errorResponses(400, 404, 500),
+  },
+};
+
+export const listTokensSchema = {
+  tags: devicesTags,
+  summary: 'API-токены (без значений)',
+  response: {
+    200: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          role: { type: 'string' },
+          createdAt: dateTime,
+          lastUsedAt: nullableDateTime,
+          revokedAt: nullableDateTime,
+          device: { type: ['object', 'null'], properties: { code: { type: 'string' } } },
+        },
+      },
+    },
+    ...errorResponses(500),
+  },
+};
+
+export const revokeTokenSchema = {
+  tags: devicesTags,
+  summary: 'Отзыв токена',
+  params: idParams,
+  response: { 200: successResponse, ...errorResponses(404, 500) },
+};
+
+export const createWebhookSchema = {
+  tags: webhooksTags,
+  summary: 'Регистрация получателя вебхуков',
+  body: {
+    type: 'object',
+    required: ['name', 'url'],
+    properties: {
+      name: str(191),
+      url: httpUrl,
+      secret: { type: 'string', minLength: 16, maxLength: 128, description: 'Не задан — сгенерируется' },
+      warehouseCode: { type: ['string', 'null'], maxLength: 191, description: 'Не задан — все склады' },
+      events: eventList,
+    },
+    additionalProperties: false,
+  },
+  response: { 201: webhookEndpoint, ...errorResponses(400, 404, 500) },
+};
+
+export const listWebhooksSchema = {
+  tags: webhooksTags,
+  summary: 'Получатели вебхуков',
+  response: { 200: { type: 'array', items: webhookEndpoint }, ...errorResponses(500) },
+};
+
+export const updateWebhookSchema = {
+  tags: webhooksTags,
+  summary: 'Изменение получателя, ротация секрета',
+  params: idParams,
+  body: {
+    type: 'object',
+    properties: {
+      url: httpUrl,
+      events: eventList,
+      isActive: { type: 'boolean' },
+      rotateSecret: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  response: { 200: webhookEndpoint, ...errorResponses(400, 404, 500) },
+};
+
+export const listDeliveriesSchema = {
+  tags: webhooksTags,
+  summary: 'Журнал доставок получателя',
+  params: idParams,
+  querystring: {
+    type: 'object',
+    properties: { limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 } },
+  },
+  response: {
+    200: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          event: { type: 'string' },
+          documentId: { type: 'string' },
+          status: { type: 'string', enum: ['PENDING', 'DELIVERED', 'FAILED'] },
+          attempts: { type: 'integer' },
+          nextAttemptAt: dateTime,
+          lastStatusCode: nullable('integer'),
+          lastError: nullable('string'),
+          createdAt: dateTime,
+          deliveredAt: nullableDateTime,
+          attemptLog: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                attempt: { type: 'integer' },
+                statusCode: nullable('integer'),
+                error: nullable('string'),
+                durationMs: { type: 'integer' },
+                createdAt: dateTime,
+              },
+              additionalProperties: true,
+            },
+          },
+        },
+        additionalProperties: true,
+      },
+    },
+    ...errorResponses(400, 404, 500),
+  },
+};
+
+export const retryDeliverySchema = {
+  tags: webhooksTags,
+  summary: 'Повторная отправка доставки в статусе FAILED',
+  params: idParams,
+  response: { 200: successResponse, ...errorResponses(404, 422, 500) },
+};
@@ -0,0 +1,102 @@
+import { assignmentPolicy, dateTime, decimalOut, errorResponses, nullable, nullableDateTime, str } from './common.js';
+
+// Каталог товаров, склады и фоновые задачи
+
+const product = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    sku: { type: 'string' },
+    name: { type: 'string' },
+    unit: { type: 'string' },
+    isActive: { type: 'boolean' },
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    barcodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          barcode: { type: 'string' },
+          isPrimary: { type: 'boolean' },
+          unit: { ...nullable('string'), description: 'Упаковка; null — базовая единица' },
+          factor: { ...decimalOut, description: 'Базовых единиц в одном скане' },
+        },
+      },
+    },
+    units: {
+      type: 'array',
+      description: 'Единицы товара, кроме базовой',
+      items: { type: 'object', properties: { unit: { type: 'string' }, factor: decimalOut } },
+    },
+  },
+  additionalProperties: true,
+} as const;
+
+export const productSearchSchema = {
+  tags: ['Каталог'],
+  summary: 'Поиск товара: штрихкод (точно), SKU (префикс), название (вхождение)',
+  querystring: {
+    type: 'object',
+    required: ['q'],
+    properties: {
+      q: { type: 'string', pattern: '\\S', maxLength: 255 },
+      limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+    },
+  },
+  response: { 200: { type: 'array', items: product }, ...errorResponses(400, 500) },
+};
+
+export const productGetSchema = {
+  tags: ['Каталог'],
+  summary: 'Товар по SKU',
+  params: { type: 'object', required: ['sku'], properties: { sku: str(191) } },
+  response: { 200: product, ...errorResponses(404, 500) },
+};
+
+export const warehouseListSchema = {
+  tags: ['Склады'],
+  summary: 'Склады',
+  response: { 200: { type: 'array', items: { $ref: 'Warehouse#' } }, ...errorResponses(500) },
+};
+
+export const warehouseSettingsSchema = {
+  tags: ['Склады'],
+  summary: 'Настройки склада по умолчанию (слепой пересчёт, политика заданий)',
+  params: { type: 'object', required: ['code'], properties: { code: str(191) } },
+  body: {
+    type: 'object',
+    minProperties: 1,
+    properties: { blindCount: { type: 'boolean' }, assignmentPolicy },
+    additionalProperties: false,
+  },
+  response: { 200: { $ref: 'Warehouse#' }, ...errorResponses(400, 404, 500) },
+};
+
+export const jobGetSchema = {
+  tags: ['Фоновые задачи'],
+  summary: 'Статус фоновой задачи',
+  params: { type: 'object', required: ['id'], properties: { id: { type: 'string', minLength: 1 } } },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        type: { type: 'string', enum: ['IMPORT', 'IMPORT_SESSION_COMMIT', 'REVISE', 'EXPORT'] },
+        status: { type: 'string', enum: ['QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED'] },
+        progress: { type: 'integer', minimum: 0, maximum: 100 },
+        attempts: { type: 'integer' },
+        maxAttempts: { type: 'integer' },
+        runAt: dateTime,
+        result: { description: 'Ответ синхронного варианта операции' },
+        error: { description: 'Тело последней ошибки: { code, message } и подробности (recountTasks, errors)' },
+        createdBy: { type: 'string' },
+        createdAt: dateTime,
+        startedAt: nullableDateTime,
+        finishedAt: nullableDateTime,
+      },
+      additionalProperties: true,
+    },
+    ...errorResponses(404, 500),
+  },
+};
@@ -0,0 +1,195 @@
+import { DOCUMENT_KEY_TYPES } from '../services/document.resolver.js';
+
+// Общие части JSON Schema маршрутов. Схемы с $id регистрируются в index.ts (fastify.addSchema)
+// и попадают в OpenAPI (/docs) как components.schemas.
+//
+// Схема ответа ещё и сериализует его (fast-json-stringify): поле, которое может быть null,
+// обязано быть объявлено nullable, иначе null превратится в "". Объекты ответов открыты
+// (additionalProperties: true) — необъявленные поля отдаются как есть.
+
+// Decimal(18,6): до 12 цифр целой части и до 6 дробной
+export const DECIMAL_PATTERN = '^-?\\d{1,12}(\\.\\d{1,6})?$';
+export const QUANTITY_PATTERN = '^\\d{1,12}(\\.\\d{1,6})?$';
+
+export const decimalString = {
+  type: 'string',
+  pattern: DECIMAL_PATTERN,
+  description: 'Десятичное число строкой, Decimal(18,6)',
+  examples: ['12.5'],
+} as const;
+
+export const quantityString = {
+  type: 'string',
+  pattern: QUANTITY_PATTERN,
+  description: 'Неотрицательное десятичное число строкой, Decimal(18,6)',
+  examples: ['12.5'],
+} as const;
+
+// Дата 1С: 2024-01-15 или 2024-01-15T10:00:00 (часовой пояс необязателен)
+export const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}([T ]\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:?\\d{2})?)?$';
+
+export const dateString = {
+  type: 'string',
+  pattern: DATE_PATTERN,
+  examples: ['2024-01-15T10:00:00'],
+} as const;
+
+export const str = (maxLength: number) => ({ type: 'string', minLength: 1, maxLength }) as const;
+export const nullable = (type: 'string' | 'integer' | 'number' | 'boolean') => ({ type: [type, 'null'] }) as const;
+export const dateTime = { type: 'string', format: 'date-time' } as const;
+export const nullableDateTime = { type: ['string', 'null'], format: 'date-time' } as const;
+export const decimalOut = { type: 'string', description: 'Decimal строкой' } as const;
+export const nullableDecimalOut = { type: ['string', 'null'], description: 'Decimal строкой' } as const;
+export const booleanQuery = { type: 'string', enum: ['true', 'false'] } as const;
+
+export const apiErrorSchema = {
+  $id: 'ApiError',
+  type: 'object',
+  description: 'Единый формат ошибки',
+  properties: {
+    code: { type: 'string', examples: ['BAD_REQUEST'] },
+    message: { type: 'string' },
+    requestId: { type: 'string', description: 'Correlation ID: то же значение в заголовке X-Request-Id и в логе сервера' },
+    errors: {
+      type: 'array',
+      description: 'Ошибки по полям / строкам (валидация запроса, разбор XML)',
+      items: {
+        type: 'object',
+        properties: {
+          line: { type: 'integer' },
+          path: { type: 'string' },
+          message: { type: 'string' },
+        },
+      },
+    },
+  },
+  additionalProperties: true,
+} as const;
+
+// Пересчёт строки вне заданий счётчика: OFF — не проверять, WARN — применить с предупреждением, REJECT — отклонить
+export const assignmentPolicy = { type: 'string', enum: ['OFF', 'WARN', 'REJECT'] } as const;
+
+export const warehouseSchema = {
+  $id: 'Warehouse',
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    code: { type: 'string' },
+    name: { type: 'string' },
+    blindCount: { type: 'boolean' },
+    assignmentPolicy: assignmentPolicy,
+  },
+  additionalProperties: true,
+} as const;
+
+export const itemSchema = {
+  $id: 'InventoryItem',
+  type: 'object',
+  description: 'Строка документа; в слепом режиме у ТСД нет qtyFrom1C и deltaQty',
+  properties: {
+    id: { type: 'string' },
+    documentId: { type: 'string' },
+    sku: { type: 'string' },
+    name: { type: 'string' },
+    unit: { type: 'string' },
+    qtyFrom1C: decimalOut,
+    source: { type: 'string', enum: ['ONEC', 'SURPLUS'] },
+    productId: nullable('string'),
+    countedQty: nullableDecimalOut,
+    correctedQty: nullableDecimalOut,
+    deltaQty: nullableDecimalOut,
+    note: nullable('string'),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    lastModified: { type: 'string', description: 'Только в /with-timestamps' },
+    barcodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: { type: 'string' }, barcode: { type: 'string' }, isPrimary: { type: 'boolean' } },
+        additionalProperties: true,
+      },
+    },
+  },
+  additionalProperties: true,
+} as const;
+
+export const documentSchema = {
+  $id: 'InventoryDocument',
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    externalId: { type: 'string' },
+    onecNumber: { type: 'string' },
+    onecDate: dateTime,
+    warehouseId: { type: 'string' },
+    warehouseCode: { type: 'string' },
+    status: { type: 'string', enum: ['NEW', 'IMPORTED', 'REVISED', 'EXPORTED'] },
+    version: { type: 'integer' },
+    blindCount: nullable('boolean'),
+    assignmentPolicy: { ...assignmentPolicy, type: ['string', 'null'], enum: [...assignmentPolicy.enum, null] },
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    warehouse: { $ref: 'Warehouse#' },
+    items: { type: 'array', items: { $ref: 'InventoryItem#' } },
+    summary: {
+      type: 'object',
+      description: 'Только в списках с view=summary, вместо items. В слепом режиме у ТСД — без расхождений',
+      properties: {
+        totalLines: { type: 'integer' },
+        countedLines: { type: 'integer' },
+        discrepancyLines: { type: 'integer' },
+        surplusQty: { ...decimalOut, description: 'Излишки по строкам плюс неразобранные излишки (unresolvedSurplus)' },
+        shortageQty: decimalOut,
+      },
+    },
+  },
+  additionalProperties: true,
+} as const;
+
+export const jobAcceptedSchema = {
+  $id: 'JobAccepted',
+  type: 'object',
+  description: 'Операция поставлена в очередь фоновых задач (?async=true)',
+  properties: {
+    jobId: { type: 'string' },
+    status: { type: 'string' },
+    statusUrl: { type: 'string', examples: ['/jobs/job_id'] },
+  },
+} as const;
+
+export const sharedSchemas = [apiErrorSchema, warehouseSchema, itemSchema, documentSchema, jobAcceptedSchema];
+
+// Ответы-ошибки маршрута в едином формате
+export function errorResponses(...statuses: number[]) {
+  return Object.fromEntries(statuses.map((status) => [status, { $ref: 'ApiError#' }]));
+}
+
+export const documentParams = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: { type: 'string', minLength: 1, description: 'id, externalId или onecNumber документа' } },
+} as const;
+
+// ?by= — чем задан :id документа. Без него: id, затем externalId, затем номер 1С;
+// номер 1С, совпавший у нескольких документов, — 409 AMBIGUOUS_DOCUMENT со списком кандидатов
+export function documentQuery(properties: Record<string, unknown> = {}) {
+  return {
+    type: 'object',
+    properties: {
+      by: { type: 'string', enum: DOCUMENT_KEY_TYPES, description: 'Чем задан id документа в пути' },
+      ...properties,
+    },
+  } as const;
+}
+
+export const asyncQuery = {
+  type: 'object',
+  properties: { async: { ...booleanQuery, description: 'true — выполнить в фоне, ответ 202 с jobId' } },
+} as const;
+
+export const successResponse = {
+  type: 'object',
+  properties: { success: { type: 'boolean' } },
+  additionalProperties: true,
+} as const;
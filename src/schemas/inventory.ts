@@ -0,0 +1,624 @@
+import {
+  assignmentPolicy, asyncQuery, booleanQuery, dateString, dateTime, decimalOut, decimalString, documentParams, documentQuery, errorResponses, nullable,
+  nullableDateTime, nullableDecimalOut, quantityString, str,
+} from './common.js';
+
+const tags = ['Документы'];
+const countTags = ['Пересчёт'];
+const superviseTags = ['Сверка и фиксация'];
+
+// Штрихкод скана: EAN/UPC/GTIN или строка GS1-128 / DataMatrix с AI (разбирается сервером)
+const gs1Barcode = {
+  ...str(191),
+  description: 'EAN-8, UPC-A, EAN-13, GTIN-14 или GS1 с AI: (01)…(10)…(17)…(21)…(310n)… либо сырые данные с FNC1 (\\u001d)',
+} as const;
+
+// Строка пересчёта: sku или barcode (проверяется в маршруте), количество — строкой
+const itemUpdate = {
+  type: 'object',
+  properties: {
+    sku: str(191),
+    barcode: gs1Barcode,
+    unit: { ...str(32), description: 'Единица countedQty; не передана — упаковка штрихкода или базовая единица строки' },
+    countedQty: { ...decimalString, description: 'Счёт устройства; v1 прибавляет к нему, v2 заменяет' },
+    correctedQty: { ...quantityString, description: 'Корректировка (не для роли COUNTER)' },
+    note: { type: 'string', maxLength: 255 },
+  },
+  additionalProperties: false,
+} as const;
+
+const locationKey = { ...str(191), description: 'Код или штрихкод места хранения' } as const;
+
+// Партия и серийный номер пересчёта (v1, v2 и офлайн-пакет)
+const countTracking = {
+  batch: { ...str(191), description: 'Серия партии; неизвестная партия заводится как найденная при пересчёте' },
+  expiryDate: { ...dateString, description: 'Срок годности; без серии — ключ партии' },
+  serial: { ...str(191), description: 'Серийный номер / код маркировки: одна штука в базовой единице, повторный скан — DUPLICATE_SERIAL' },
+} as const;
+
+// Разбивка счёта по местам хранения; пусто, если строка считалась без мест
+const locationCounts = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      location: { ...nullable('string'), description: 'Код места; null — без места' },
+      countedQty: nullableDecimalOut,
+      correctedQty: nullableDecimalOut,
+    },
+  },
+} as const;
+
+// Строки вне заданий счётчика (политика заданий склада или документа)
+const itemIssues = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      sku: { type: 'string' },
+      code: { type: 'string', enum: ['OUTSIDE_ASSIGNMENT'] },
+      message: { type: 'string' },
+    },
+  },
+} as const;
+
+const updateResultV2 = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    version: { type: 'integer' },
+    appliedChanges: { type: 'integer' },
+    conflicts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          sku: { type: 'string' },
+          field: { type: 'string', enum: ['countedQty', 'correctedQty', 'note'] },
+          yourValue: nullable('string'),
+          currentValue: nullable('string'),
+          lastModified: { type: 'string' },
+          lastDeviceId: nullable('string'),
+        },
+      },
+    },
+    surplus: { type: 'array', items: { type: 'string' }, description: 'Штрихкоды, учтённые как излишек' },
+    warnings: { ...itemIssues, description: 'Применены, но вне заданий счётчика (политика WARN)' },
+    rejected: { ...itemIssues, description: 'Не применены: вне заданий счётчика (политика REJECT)' },
+  },
+  additionalProperties: true,
+} as const;
+
+export const getDocumentSchema = {
+  tags,
+  summary: 'Документ со строками',
+  params: documentParams,
+  querystring: documentQuery(),
+  response: { 200: { $ref: 'InventoryDocument#' }, ...errorResponses(404, 409, 500) },
+};
+
+// Фильтры списка документов; период — границы включительно, дата без времени в *To — весь день
+const documentListFilters = {
+  status: {
+    type: 'array',
+    items: { type: 'string', enum: ['NEW', 'IMPORTED', 'REVISED', 'EXPORTED'] },
+    description: 'Один или несколько статусов: ?status=IMPORTED&status=REVISED',
+  },
+  onecNumber: { ...str(191), description: 'Поиск по вхождению в номер 1С' },
+  onecDateFrom: dateString,
+  onecDateTo: dateString,
+  createdFrom: dateString,
+  createdTo: dateString,
+  cursor: { type: 'string', maxLength: 512, description: 'nextCursor предыдущей страницы' },
+  view: { type: 'string', enum: ['full', 'summary'], description: 'full — со строками, summary — счётчики вместо строк' },
+} as const;
+
+export const listDocumentsSchema = {
+  tags,
+  summary: 'Документы склада',
+  description: 'Без limit — весь список, как раньше. С limit следующая страница — по курсору из заголовка X-Next-Cursor.',
+  params: {
+    type: 'object',
+    required: ['warehouseCode'],
+    properties: { warehouseCode: str(191) },
+  },
+  querystring: {
+    type: 'object',
+    properties: {
+      ...documentListFilters,
+      limit: { type: 'integer', minimum: 1, maximum: 500 },
+      view: { ...documentListFilters.view, default: 'full' },
+    },
+  },
+  response: { 200: { type: 'array', items: { $ref: 'InventoryDocument#' } }, ...errorResponses(400, 403, 404, 500) },
+};
+
+export const listAllDocumentsSchema = {
+  tags,
+  summary: 'Документы всех складов (постранично)',
+  description: 'ТСД, привязанный к складу, получает только документы своего склада.',
+  querystring: {
+    type: 'object',
+    properties: {
+      warehouseCode: str(191),
+      ...documentListFilters,
+      limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+      view: { ...documentListFilters.view, default: 'summary' },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        documents: { type: 'array', items: { $ref: 'InventoryDocument#' } },
+        nextCursor: { ...nullable('string'), description: 'null — страница последняя' },
+      },
+    },
+    ...errorResponses(400, 403, 500),
+  },
+};
+
+export const documentWithTimestampsSchema = {
+  tags,
+  summary: 'Документ с lastModified по строкам (для v2)',
+  params: documentParams,
+  querystring: documentQuery(),
+  response: { 200: { $ref: 'InventoryDocument#' }, ...errorResponses(404, 409, 500) },
+};
+
+export const statusHistorySchema = {
+  tags,
+  summary: 'История статусов документа',
+  params: documentParams,
+  querystring: documentQuery(),
+  response: {
+    200: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          fromStatus: nullable('string'),
+          toStatus: { type: 'string' },
+          changedBy: { type: 'string' },
+          reason: nullable('string'),
+          createdAt: dateTime,
+        },
+        additionalProperties: true,
+      },
+    },
+    ...errorResponses(404, 409, 500),
+  },
+};
+
+export const documentSettingsSchema = {
+  tags,
+  summary: 'Настройки документа (слепой пересчёт, политика заданий)',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    minProperties: 1,
+    properties: {
+      blindCount: { type: ['boolean', 'null'], description: 'null — как у склада' },
+      assignmentPolicy: { ...assignmentPolicy, type: ['string', 'null'], enum: [...assignmentPolicy.enum, null], description: 'null — как у склада' },
+    },
+    additionalProperties: false,
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        blindCount: nullable('boolean'),
+        effectiveBlindCount: { type: 'boolean', description: 'С учётом настройки склада' },
+        assignmentPolicy: nullable('string'),
+        effectiveAssignmentPolicy: { ...assignmentPolicy, description: 'С учётом настройки склада' },
+      },
+    },
+    ...errorResponses(400, 404, 409, 500),
+  },
+};
+
+export const eventsSchema = {
+  tags,
+  summary: 'Поток событий документа (Server-Sent Events)',
+  description: 'text/event-stream; токен можно передать в ?access_token=',
+  params: documentParams,
+  querystring: documentQuery({ access_token: { type: 'string' } }),
+  response: { 200: { description: 'text/event-stream', type: 'string' }, ...errorResponses(404, 409, 500) },
+};
+
+export const updateItemsSchema = {
+  tags: countTags,
+  summary: 'Пересчёт строк (v1, optimistic locking по version)',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    required: ['version', 'items'],
+    properties: {
+      version: { type: 'integer', minimum: 1 },
+      items: {
+        type: 'array',
+        items: {
+          ...itemUpdate,
+          properties: {
+            ...itemUpdate.properties,
+            ...countTracking,
+            location: { ...locationKey, description: 'Место пересчёта; не передано — текущее место ТСД' },
+          },
+        },
+      },
+    },
+    additionalProperties: false,
+  },
+  response: { 200: { $ref: 'InventoryDocument#' }, ...errorResponses(400, 403, 404, 409, 422, 500) },
+};
+
+export const updateItemsV2Schema = {
+  tags: countTags,
+  summary: 'Пересчёт строк с построчным слиянием (v2)',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    required: ['version', 'items'],
+    properties: {
+      version: { type: 'integer', minimum: 1 },
+      items: {
+        type: 'array',
+        items: {
+          ...itemUpdate,
+          properties: {
+            ...itemUpdate.properties,
+            ...countTracking,
+            location: { ...locationKey, description: 'Место пересчёта; не передано — текущее место ТСД' },
+            lastKnownModified: { type: 'string', format: 'date-time', description: 'lastModified строки, которую видел ТСД' },
+          },
+        },
+      },
+    },
+    additionalProperties: false,
+  },
+  response: {
+    200: updateResultV2,
+    206: updateResultV2,
+    ...errorResponses(400, 403, 404, 409, 422, 500),
+  },
+};
+
+export const syncSchema = {
+  tags: countTags,
+  summary: 'Пакет офлайн-операций ТСД (идемпотентно по opId)',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    required: ['operations'],
+    properties: {
+      operations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['opId'],
+          properties: {
+            opId: { ...str(64), description: 'UUID операции, сгенерированный ТСД' },
+            sku: str(191),
+            barcode: gs1Barcode,
+            location: { ...locationKey, description: 'С товаром — место этой операции, без товара — скан места' },
+            mode: { type: 'string', enum: ['add', 'set'], default: 'add' },
+            unit: { ...str(32), description: 'Единица countedQty; не передана — упаковка штрихкода или базовая' },
+            countedQty: decimalString,
+            correctedQty: quantityString,
+            note: { type: 'string', maxLength: 255 },
+            ...countTracking,
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    additionalProperties: false,
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+        version: { type: 'integer' },
+        applied: { type: 'array', items: { type: 'string' } },
+        duplicates: { type: 'array', items: { type: 'string' } },
+        rejected: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { opId: { type: 'string' }, code: { type: 'string' }, message: { type: 'string' } },
+          },
+        },
+        surplus: { type: 'array', items: { type: 'string' } },
+        location: { ...nullable('string'), description: 'Текущее место ТСД после пакета' },
+      },
+      additionalProperties: true,
+    },
+    ...errorResponses(400, 403, 404, 409, 422, 500),
+  },
+};
+
+export const changesSchema = {
+  tags: countTags,
+  summary: 'Строки, изменённые другими устройствами после курсора',
+  params: documentParams,
+  querystring: documentQuery({
+    since: { type: 'integer', minimum: 0, default: 0 },
+    limit: { type: 'integer', minimum: 1, maximum: 5000, default: 500 },
+  }),
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        cursor: { type: 'integer' },
+        hasMore: { type: 'boolean' },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              sku: { type: 'string' },
+              countedQty: nullable('string'),
+              correctedQty: nullable('string'),
+              note: nullable('string'),
+              lastModified: { type: 'string' },
+              lastDeviceId: { type: 'string' },
+            },
+            additionalProperties: true,
+          },
+        },
+      },
+      additionalProperties: true,
+    },
+    ...errorResponses(400, 404, 409, 500),
+  },
+};
+
+export const reviseSchema = {
+  tags: superviseTags,
+  summary: 'Фиксация документа (расчёт дельт, IMPORTED → REVISED)',
+  params: documentParams,
+  querystring: documentQuery(asyncQuery.properties),
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+        status: { type: 'string' },
+        version: { type: 'integer' },
+        recountTasks: { type: 'array', items: { type: 'object', additionalProperties: true } },
+      },
+      additionalProperties: true,
+    },
+    202: { $ref: 'JobAccepted#' },
+    ...errorResponses(404, 409, 422, 500),
+  },
+};
+
+export const reopenSchema = {
+  tags: superviseTags,
+  summary: 'Переоткрытие документа (REVISED → IMPORTED)',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: ['object', 'null'],
+    properties: { reason: { type: 'string', maxLength: 255 } },
+    additionalProperties: false,
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: { success: { type: 'boolean' }, status: { type: 'string' }, version: { type: 'integer' } },
+      additionalProperties: true,
+    },
+    ...errorResponses(400, 404, 409, 422, 500),
+  },
+};
+
+const deviceCount = {
+  type: 'object',
+  properties: {
+    deviceId: { type: 'string' },
+    countedQty: nullableDecimalOut,
+    correctedQty: nullableDecimalOut,
+    updatedAt: dateTime,
+    decision: { type: 'string', enum: ['ACCEPTED', 'REJECTED', 'AUTHORITATIVE'] },
+    locations: locationCounts,
+  },
+  additionalProperties: true,
+} as const;
+
+export const reconciliationSchema = {
+  tags: superviseTags,
+  summary: 'Сверка по устройствам',
+  params: documentParams,
+  querystring: documentQuery(),
+  response: {
+    200: {
+      type: 'object',
+      additionalProperties: true,
+      properties: {
+        documentId: { type: 'string' },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              sku: { type: 'string' },
+              name: { type: 'string' },
+              unit: { type: 'string' },
+              qtyFrom1C: decimalOut,
+              devices: { type: 'array', items: deviceCount },
+              locations: { ...locationCounts, description: 'Итог по местам (учтённые устройства)' },
+              batches: {
+                type: 'array',
+                description: 'Итог по партиям; только для строк с партиями или серийными номерами. batch = null — без партии',
+                items: {
+                  type: 'object',
+                  properties: {
+                    batch: nullable('string'),
+                    expiryDate: nullable('string'),
+                    qtyFrom1C: decimalOut,
+                    countedQty: nullableDecimalOut,
+                    correctedQty: nullableDecimalOut,
+                    serials: { type: 'array', items: { type: 'string' }, description: 'Отсканированные серийные номера' },
+                  },
+                },
+              },
+              recountQty: nullableDecimalOut,
+              countedTotal: decimalOut,
+              correctedTotal: nullableDecimalOut,
+              finalQty: decimalOut,
+              discrepancy: decimalOut,
+            },
+            additionalProperties: true,
+          },
+        },
+      },
+    },
+    ...errorResponses(404, 409, 500),
+  },
+};
+
+export const decisionSchema = {
+  tags: superviseTags,
+  summary: 'Решение по вкладу устройства в строку',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    required: ['sku', 'deviceId', 'decision'],
+    properties: {
+      sku: str(191),
+      deviceId: str(191),
+      decision: { type: 'string', enum: ['ACCEPTED', 'REJECTED', 'AUTHORITATIVE'] },
+      reason: { type: 'string', maxLength: 255 },
+    },
+    additionalProperties: false,
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+        sku: { type: 'string' },
+        deviceId: { type: 'string' },
+        decision: { type: 'string' },
+      },
+      additionalProperties: true,
+    },
+    ...errorResponses(400, 404, 409, 422, 500),
+  },
+};
+
+const surplusLine = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    barcode: { type: 'string' },
+    deviceId: { type: 'string' },
+    locationId: { ...nullable('string'), description: 'Место скана; null — без места' },
+    location: { type: ['object', 'null'], properties: { code: { type: 'string' } } },
+    countedQty: decimalOut,
+    note: nullable('string'),
+    changes: {
+      type: 'array',
+      description: 'Сканы GS1 как есть (партия, срок, серийный номер); barcode строки — их GTIN-14',
+      items: { type: 'object', properties: { scan: { type: 'string' }, countedQty: decimalOut, createdAt: dateTime } },
+    },
+    status: { type: 'string', enum: ['OPEN', 'MAPPED', 'CREATED'] },
+    itemId: nullable('string'),
+    resolvedBy: nullable('string'),
+    resolvedAt: nullableDateTime,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  },
+  additionalProperties: true,
+} as const;
+
+const surplusParams = {
+  type: 'object',
+  required: ['id', 'lineId'],
+  properties: { ...documentParams.properties, lineId: { type: 'string', minLength: 1 } },
+} as const;
+
+const surplusResolved = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    version: { type: 'integer' },
+    status: { type: 'string', enum: ['MAPPED', 'CREATED'] },
+    item: { $ref: 'InventoryItem#' },
+    resolvedLines: { type: 'array', items: { type: 'string' } },
+  },
+  additionalProperties: true,
+} as const;
+
+export const surplusListSchema = {
+  tags: superviseTags,
+  summary: 'Излишки документа (неизвестные штрихкоды)',
+  params: documentParams,
+  querystring: documentQuery({ status: { type: 'string', enum: ['OPEN', 'MAPPED', 'CREATED'] } }),
+  response: { 200: { type: 'array', items: surplusLine }, ...errorResponses(400, 404, 409, 500) },
+};
+
+export const surplusMapSchema = {
+  tags: superviseTags,
+  summary: 'Отнести излишек к существующей строке',
+  params: surplusParams,
+  querystring: documentQuery(),
+  body: { type: 'object', required: ['sku'], properties: { sku: str(191) }, additionalProperties: false },
+  response: { 200: surplusResolved, ...errorResponses(400, 404, 409, 422, 500) },
+};
+
+export const surplusCreateItemSchema = {
+  tags: superviseTags,
+  summary: 'Создать по излишку новую строку документа',
+  params: surplusParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    required: ['sku'],
+    properties: { sku: str(191), name: str(255), unit: str(32) },
+    additionalProperties: false,
+  },
+  response: { 201: surplusResolved, ...errorResponses(400, 404, 409, 422, 500) },
+};
+
+export const reportSchema = {
+  tags,
+  summary: 'Документ в CSV или XLSX',
+  params: {
+    type: 'object',
+    required: ['id', 'format'],
+    properties: { ...documentParams.properties, format: { type: 'string', enum: ['csv', 'xlsx'] } },
+  },
+  querystring: documentQuery({ discrepancies: { ...booleanQuery, description: 'true — только строки с отклонением' } }),
+  response: {
+    200: {
+      description: 'Файл отчёта',
+      content: {
+        'text/csv': { schema: { type: 'string' } },
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { schema: { type: 'string', format: 'binary' } },
+      },
+    },
+    ...errorResponses(400, 404, 409, 500),
+  },
+};
+
+export const countSheetSchema = {
+  tags,
+  summary: 'Инвентаризационная опись (ИНВ-3) для печати',
+  params: documentParams,
+  querystring: documentQuery({ discrepancies: booleanQuery }),
+  response: {
+    200: { description: 'HTML для печати', content: { 'text/html': { schema: { type: 'string' } } } },
+    ...errorResponses(404, 409, 500),
+  },
+};
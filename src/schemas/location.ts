@@ -0,0 +1,272 @@
+import { dateTime, documentParams, documentQuery, errorResponses, nullable, str, successResponse } from './common.js';
+
+// Места хранения склада, текущее место ТСД и задания на пересчёт по местам
+
+const locationTags = ['Места хранения'];
+const assignmentTags = ['Задания на пересчёт'];
+
+const locationType = { type: 'string', enum: ['ZONE', 'AISLE', 'BIN'] } as const;
+const assignmentStatus = { type: 'string', enum: ['OPEN', 'DONE', 'CANCELLED'] } as const;
+const assignmentScope = { type: 'string', enum: ['LOCATION', 'SKU_RANGE', 'ITEMS'] } as const;
+const assignee = { type: ['string', 'null'], maxLength: 191, description: 'Код ТСД или имя токена пользователя' } as const;
+
+const warehouseParams = {
+  type: 'object',
+  required: ['warehouseCode'],
+  properties: { warehouseCode: str(191) },
+} as const;
+
+const location = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    code: { type: 'string' },
+    name: nullable('string'),
+    type: locationType,
+    parentCode: nullable('string'),
+    barcode: nullable('string'),
+    isActive: { type: 'boolean' },
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  },
+  additionalProperties: true,
+} as const;
+
+const locationRef = {
+  type: ['object', 'null'],
+  properties: { id: { type: 'string' }, code: { type: 'string' }, name: nullable('string'), type: locationType },
+} as const;
+
+const assignment = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    documentId: { type: 'string' },
+    scope: assignmentScope,
+    name: nullable('string'),
+    locationId: nullable('string'),
+    skuFrom: nullable('string'),
+    skuTo: nullable('string'),
+    skus: { type: 'array', items: { type: 'string' }, description: 'Строки задания со списком (ITEMS)' },
+    status: assignmentStatus,
+    assignee: nullable('string'),
+    createdBy: { type: 'string' },
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    location: locationRef,
+    document: {
+      type: 'object',
+      description: 'Только в /count-assignments/my',
+      properties: { id: { type: 'string' }, externalId: { type: 'string' }, onecNumber: { type: 'string' } },
+    },
+  },
+  additionalProperties: true,
+} as const;
+
+const assignmentParams = {
+  type: 'object',
+  required: ['assignmentId'],
+  properties: { assignmentId: { type: 'string', minLength: 1 } },
+} as const;
+
+export const listLocationsSchema = {
+  tags: locationTags,
+  summary: 'Места хранения склада',
+  params: warehouseParams,
+  querystring: {
+    type: 'object',
+    properties: { includeInactive: { type: 'boolean', default: false } },
+  },
+  response: { 200: { type: 'array', items: location }, ...errorResponses(403, 404, 500) },
+};
+
+export const upsertLocationsSchema = {
+  tags: locationTags,
+  summary: 'Загрузить места хранения (создать или обновить по коду)',
+  description: 'Родитель — уже существующее место или место выше по списку. ZONE > AISLE > BIN, уровни можно пропускать.',
+  params: warehouseParams,
+  body: {
+    type: 'object',
+    required: ['locations'],
+    properties: {
+      locations: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 5000,
+        items: {
+          type: 'object',
+          required: ['code', 'type'],
+          properties: {
+            code: str(64),
+            type: locationType,
+            name: { type: ['string', 'null'], maxLength: 255 },
+            parentCode: { type: ['string', 'null'], maxLength: 64, description: 'null — место верхнего уровня' },
+            barcode: { type: ['string', 'null'], minLength: 1, maxLength: 191 },
+            isActive: { type: 'boolean' },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    additionalProperties: false,
+  },
+  response: { 200: { type: 'array', items: location }, ...errorResponses(400, 403, 404, 409, 422, 500) },
+};
+
+export const getDeviceLocationSchema = {
+  tags: locationTags,
+  summary: 'Текущее место ТСД в документе',
+  params: documentParams,
+  querystring: documentQuery(),
+  response: {
+    200: { type: 'object', properties: { location: locationRef } },
+    ...errorResponses(400, 404, 409, 500),
+  },
+};
+
+export const setDeviceLocationSchema = {
+  tags: locationTags,
+  summary: 'Скан места: следующие пересчёты ТСД относятся к нему',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    required: ['location'],
+    properties: {
+      location: { type: ['string', 'null'], minLength: 1, maxLength: 191, description: 'Код или штрихкод места; null — без места' },
+    },
+    additionalProperties: false,
+  },
+  response: {
+    200: { type: 'object', properties: { location: locationRef } },
+    ...errorResponses(400, 403, 404, 409, 500),
+  },
+};
+
+const lineStats = {
+  totalLines: { type: 'integer' },
+  countedLines: { type: 'integer' },
+  pendingLines: { type: 'integer' },
+} as const;
+
+export const documentAssignmentsSchema = {
+  tags: assignmentTags,
+  summary: 'Задания на пересчёт документа',
+  params: documentParams,
+  querystring: documentQuery({ status: assignmentStatus }),
+  response: { 200: { type: 'array', items: assignment }, ...errorResponses(400, 404, 409, 500) },
+};
+
+export const createAssignmentSchema = {
+  tags: assignmentTags,
+  summary: 'Задание: место хранения, диапазон SKU или список строк',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    required: ['scope'],
+    properties: {
+      scope: assignmentScope,
+      name: { type: 'string', maxLength: 255 },
+      location: { ...str(191), description: 'LOCATION: код или штрихкод места (вместе с вложенными)' },
+      skuFrom: { ...str(191), description: 'SKU_RANGE: нижняя граница включительно' },
+      skuTo: { ...str(191), description: 'SKU_RANGE: верхняя граница включительно' },
+      skus: { type: 'array', items: str(191), minItems: 1, maxItems: 10000, description: 'ITEMS: SKU строк документа' },
+      assignee,
+    },
+    additionalProperties: false,
+  },
+  response: { 201: assignment, ...errorResponses(400, 404, 409, 422, 500) },
+};
+
+export const splitAssignmentsSchema = {
+  tags: assignmentTags,
+  summary: 'Разбить документ на задания: по местам уровня type или на parts диапазонов SKU',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    properties: {
+      type: locationType,
+      parts: { type: 'integer', minimum: 1, maximum: 100, description: 'Диапазоны SKU с равным числом строк' },
+      assignees: { type: 'array', items: str(191), maxItems: 100, description: 'Назначаются новым заданиям по кругу' },
+    },
+    additionalProperties: false,
+  },
+  response: { 200: { type: 'array', items: assignment }, ...errorResponses(400, 404, 409, 422, 500) },
+};
+
+export const myAssignmentsSchema = {
+  tags: assignmentTags,
+  summary: 'Открытые задания текущего счётчика',
+  response: { 200: { type: 'array', items: assignment }, ...errorResponses(500) },
+};
+
+export const updateAssignmentSchema = {
+  tags: assignmentTags,
+  summary: 'Назначить счётчика, переименовать или сменить статус задания',
+  params: assignmentParams,
+  body: {
+    type: 'object',
+    minProperties: 1,
+    properties: {
+      name: { type: ['string', 'null'], maxLength: 255 },
+      assignee: { ...assignee, description: 'null — снять назначение' },
+      status: assignmentStatus,
+    },
+    additionalProperties: false,
+  },
+  response: { 200: assignment, ...errorResponses(400, 404, 500) },
+};
+
+export const deleteAssignmentSchema = {
+  tags: assignmentTags,
+  summary: 'Удалить задание',
+  params: assignmentParams,
+  response: { 200: successResponse, ...errorResponses(404, 500) },
+};
+
+export const progressSchema = {
+  tags: assignmentTags,
+  summary: 'Прогресс пересчёта по заданиям и счётчикам',
+  params: documentParams,
+  querystring: documentQuery(),
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        documentId: { type: 'string' },
+        ...lineStats,
+        unassignedLines: { type: 'integer', description: 'Строки вне всех действующих заданий' },
+        assignments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: nullable('string'),
+              scope: assignmentScope,
+              status: assignmentStatus,
+              assignee: nullable('string'),
+              ...lineStats,
+            },
+          },
+        },
+        counters: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              counter: { type: 'string' },
+              assignments: { type: 'integer' },
+              ...lineStats,
+              countedByCounter: { type: 'integer', description: 'Строки, которые считал сам счётчик' },
+              outsideLines: { type: 'integer', description: 'Из них вне его заданий' },
+            },
+          },
+        },
+      },
+    },
+    ...errorResponses(400, 404, 409, 500),
+  },
+};
@@ -0,0 +1,424 @@
+import { Ajv } from 'ajv';
+import { issueMessage, issuePath } from '../error.handler.js';
+import {
+  asyncQuery, dateString, dateTime, decimalOut, documentParams, documentQuery, errorResponses, nullable,
+  nullableDateTime, quantityString, str, successResponse,
+} from './common.js';
+
+const tags = ['Обмен с 1С'];
+
+const importItem = {
+  type: 'object',
+  required: ['sku', 'name', 'unit', 'qtyFrom1C'],
+  properties: {
+    sku: str(191),
+    name: str(255),
+    unit: str(32),
+    qtyFrom1C: quantityString,
+    barcodes: {
+      type: 'array',
+      items: str(191),
+      description: 'Не передан — штрихкоды строки берутся из каталога',
+    },
+    location: { ...str(64), description: 'Код места хранения склада; по нему строка попадает в задания на пересчёт по местам' },
+    batches: {
+      type: 'array',
+      maxItems: 10000,
+      description: 'Партии строки (серия и/или срок годности); не передан — партии строки не меняются',
+      items: {
+        type: 'object',
+        required: ['qtyFrom1C'],
+        properties: {
+          batch: str(191),
+          expiryDate: dateString,
+          qtyFrom1C: quantityString,
+          serials: { type: 'array', items: str(191), maxItems: 100000 },
+        },
+        additionalProperties: false,
+      },
+    },
+    serials: {
+      type: 'array',
+      items: str(191),
+      maxItems: 100000,
+      description: 'Серийные номера / коды маркировки без партии',
+    },
+  },
+  additionalProperties: false,
+} as const;
+
+// Строки импорта, которые не проходят через схему маршрута (поток NDJSON, XML), проверяются той же схемой
+// с настройками ajv Fastify: приведение типов и удаление лишних полей, как у порции JSON
+const importItemValidator = new Ajv({ coerceTypes: 'array', useDefaults: true, removeAdditional: true, allErrors: true })
+  .compile(importItem);
+
+// Ошибки строки импорта по схеме importItem — путь и сообщение, как у ошибок схемы маршрута; пустой массив — строка верна
+export function importItemErrors(item: unknown): string[] {
+  if (importItemValidator(item)) return [];
+  return (importItemValidator.errors ?? []).map((e) => `${issuePath('', e).slice(1) || 'item'} ${issueMessage(e)}`);
+}
+
+const importHeader = {
+  externalId: { ...str(191), description: 'GUID документа 1С' },
+  onecNumber: str(191),
+  onecDate: dateString,
+  warehouse: {
+    type: 'object',
+    required: ['code', 'name'],
+    properties: { code: str(191), name: str(255) },
+    additionalProperties: false,
+  },
+} as const;
+
+export const importPayloadSchema = {
+  $id: 'ImportPayload',
+  type: 'object',
+  required: ['externalId', 'onecNumber', 'onecDate', 'warehouse', 'items'],
+  properties: { ...importHeader, items: { type: 'array', items: importItem } },
+  additionalProperties: false,
+} as const;
+
+export const exportResponseSchema = {
+  $id: 'ExportResponse',
+  type: 'object',
+  description: 'Снимок выгрузки: реквизиты снимка и итоги по строкам',
+  properties: {
+    snapshotId: { type: 'string', description: 'Передаётся в /ack' },
+    hash: { type: 'string' },
+    documentVersion: { type: 'integer' },
+    createdAt: dateTime,
+    acknowledgedAt: nullableDateTime,
+    externalId: { type: 'string' },
+    warehouse: { type: 'object', properties: { code: { type: 'string' } } },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          sku: { type: 'string' },
+          unit: { type: 'string' },
+          isNew: { type: 'boolean', description: 'Строка создана по излишку, в документе 1С её нет' },
+          qtyFrom1C: decimalOut,
+          correctedQty: decimalOut,
+          countedQty: decimalOut,
+          deltaQty: decimalOut,
+          barcodes: { type: 'array', items: { type: 'string' } },
+          locations: {
+            type: 'array',
+            description: 'Только для строк, посчитанных по местам хранения',
+            items: {
+              type: 'object',
+              properties: { location: nullable('string'), countedQty: decimalOut, correctedQty: nullable('string') },
+            },
+          },
+          batches: {
+            type: 'array',
+            description: 'Только для строк с партиями или серийными номерами; batch = null — без партии',
+            items: {
+              type: 'object',
+              properties: {
+                batch: nullable('string'),
+                expiryDate: nullable('string'),
+                qtyFrom1C: decimalOut,
+                countedQty: decimalOut,
+                correctedQty: nullable('string'),
+                serials: { type: 'array', items: { type: 'string' } },
+              },
+            },
+          },
+        },
+        additionalProperties: true,
+      },
+    },
+    unresolvedSurplus: {
+      type: 'array',
+      items: { type: 'object', properties: { barcode: { type: 'string' }, countedQty: decimalOut } },
+    },
+  },
+  additionalProperties: true,
+} as const;
+
+const importSession = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    externalId: { type: 'string' },
+    onecNumber: { type: 'string' },
+    onecDate: dateTime,
+    warehouseCode: { type: 'string' },
+    warehouseName: { type: 'string' },
+    status: { type: 'string', enum: ['OPEN', 'COMMITTING', 'COMMITTED', 'ABORTED'] },
+    stage: nullable('string'),
+    receivedCount: { type: 'integer' },
+    itemCount: { type: 'integer' },
+    chunkCount: { type: 'integer' },
+    documentId: nullable('string'),
+    error: nullable('string'),
+    createdBy: { type: 'string' },
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    committedAt: nullableDateTime,
+  },
+  additionalProperties: true,
+} as const;
+
+const sessionParams = {
+  type: 'object',
+  required: ['sessionId'],
+  properties: { sessionId: { type: 'string', minLength: 1 } },
+} as const;
+
+const xmlSchemaQuery = {
+  type: 'string',
+  enum: ['commerceml', 'inventory'],
+  description: 'Формат XML при Accept: application/xml (по умолчанию commerceml)',
+} as const;
+
+const xmlBody = { type: 'string', description: 'CommerceML 2 или «Инвентаризация товаров на складе»' } as const;
+
+export const importSchema = {
+  tags,
+  summary: 'Импорт документа (JSON или XML)',
+  description: 'application/json — ImportPayload; application/xml или text/xml — CommerceML 2 или «Инвентаризация товаров на складе»',
+  querystring: asyncQuery,
+  body: {
+    content: {
+      'application/json': { schema: { $ref: 'ImportPayload#' } },
+      'application/xml': { schema: xmlBody },
+      'text/xml': { schema: xmlBody },
+    },
+  },
+  response: {
+    200: { $ref: 'InventoryDocument#' },
+    202: { $ref: 'JobAccepted#' },
+    ...errorResponses(400, 404, 422, 500),
+  },
+};
+
+export const exportSchema = {
+  tags,
+  summary: 'Выгрузка итогов (снимок), JSON или XML по Accept',
+  params: documentParams,
+  querystring: documentQuery({ ...asyncQuery.properties, schema: xmlSchemaQuery }),
+  response: {
+    200: {
+      content: {
+        'application/json': { schema: { $ref: 'ExportResponse#' } },
+        'application/xml': { schema: { type: 'string' } },
+      },
+    },
+    202: { $ref: 'JobAccepted#' },
+    ...errorResponses(400, 404, 409, 422, 500),
+  },
+};
+
+export const listSnapshotsSchema = {
+  tags,
+  summary: 'Снимки выгрузки документа (без данных)',
+  params: documentParams,
+  querystring: documentQuery(),
+  response: {
+    200: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          documentId: { type: 'string' },
+          documentVersion: { type: 'integer' },
+          hash: { type: 'string' },
+          createdBy: { type: 'string' },
+          createdAt: dateTime,
+          acknowledgedAt: nullableDateTime,
+          acknowledgedBy: nullable('string'),
+        },
+        additionalProperties: true,
+      },
+    },
+    ...errorResponses(404, 409, 500),
+  },
+};
+
+export const getSnapshotSchema = {
+  tags,
+  summary: 'Снимок выгрузки целиком',
+  params: { type: 'object', required: ['snapshotId'], properties: { snapshotId: { type: 'string', minLength: 1 } } },
+  querystring: { type: 'object', properties: { schema: xmlSchemaQuery } },
+  response: {
+    200: {
+      content: {
+        'application/json': { schema: { $ref: 'ExportResponse#' } },
+        'application/xml': { schema: { type: 'string' } },
+      },
+    },
+    ...errorResponses(400, 404, 500),
+  },
+};
+
+export const ackSchema = {
+  tags,
+  summary: 'Подтверждение загрузки снимка в 1С (REVISED → EXPORTED)',
+  params: documentParams,
+  querystring: documentQuery(),
+  body: {
+    type: 'object',
+    required: ['snapshotId'],
+    properties: { snapshotId: { ...str(191), description: 'snapshotId из ответа /export' } },
+    additionalProperties: false,
+  },
+  response: {
+    200: { type: 'object', properties: { success: { type: 'boolean' }, snapshotId: { type: 'string' } } },
+    ...errorResponses(400, 404, 409, 422, 500),
+  },
+};
+
+export const productsImportSchema = {
+  tags,
+  summary: 'Синхронизация каталога товаров и штрихкодов',
+  body: {
+    type: 'object',
+    required: ['products'],
+    properties: {
+      products: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['sku', 'name', 'unit', 'barcodes'],
+          properties: {
+            sku: str(191),
+            name: str(255),
+            unit: str(32),
+            barcodes: {
+              type: 'array',
+              description: 'Полный набор: отсутствующие удаляются. Строка — штрихкод штуки, объект — штрихкод упаковки',
+              items: {
+                anyOf: [
+                  str(191),
+                  {
+                    type: 'object',
+                    required: ['barcode'],
+                    properties: {
+                      barcode: str(191),
+                      unit: { ...str(32), description: 'Единица товара из units (или базовая)' },
+                      factor: { ...quantityString, description: 'Базовых единиц в упаковке; не передана — из units' },
+                    },
+                    dependencies: { factor: ['unit'] },
+                    additionalProperties: false,
+                  },
+                ],
+              },
+            },
+            units: {
+              type: 'array',
+              maxItems: 50,
+              description: 'Единицы, кроме базовой (коробка = 24 шт). Полный набор; не передан — не меняются',
+              items: {
+                type: 'object',
+                required: ['unit', 'factor'],
+                properties: { unit: str(32), factor: { ...quantityString, description: 'Базовых единиц в одной' } },
+                additionalProperties: false,
+              },
+            },
+            isActive: { type: 'boolean', default: true },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    additionalProperties: false,
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        created: { type: 'integer' },
+        updated: { type: 'integer' },
+        barcodesMoved: { type: 'integer', description: 'Штрихкоды, перешедшие от другого товара' },
+      },
+    },
+    ...errorResponses(400, 500),
+  },
+};
+
+export const beginSessionSchema = {
+  tags,
+  summary: 'Поэтапный импорт: начать сессию (шапка документа)',
+  body: {
+    type: 'object',
+    required: ['externalId', 'onecNumber', 'onecDate', 'warehouse'],
+    properties: importHeader,
+    additionalProperties: false,
+  },
+  response: { 201: importSession, ...errorResponses(400, 500) },
+};
+
+export const getSessionSchema = {
+  tags,
+  summary: 'Поэтапный импорт: состояние сессии',
+  params: sessionParams,
+  response: { 200: importSession, ...errorResponses(404, 500) },
+};
+
+export const appendItemsSchema = {
+  tags,
+  summary: 'Поэтапный импорт: порция строк',
+  description: 'application/json { items } или application/x-ndjson — по строке JSON на позицию',
+  params: sessionParams,
+  body: {
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: ['items'],
+          properties: { items: { type: 'array', items: importItem } },
+          additionalProperties: false,
+        },
+      },
+      // Тело NDJSON доходит до маршрута потоком (объект Readable) и проверяется построчно в ImportSessionService
+      'application/x-ndjson': { schema: { type: 'object', description: 'Строка JSON на позицию (формат как items[])' } },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string' },
+        received: { type: 'integer' },
+        receivedCount: { type: 'integer' },
+        itemCount: { type: 'integer' },
+        chunkCount: { type: 'integer' },
+      },
+    },
+    ...errorResponses(400, 404, 422, 500),
+  },
+};
+
+export const commitSessionSchema = {
+  tags,
+  summary: 'Поэтапный импорт: применить сессию к документу',
+  params: sessionParams,
+  querystring: asyncQuery,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string' },
+        status: { type: 'string' },
+        documentId: { type: 'string' },
+        externalId: { type: 'string' },
+        version: { type: 'integer' },
+        itemCount: { type: 'integer' },
+      },
+    },
+    202: { $ref: 'JobAccepted#' },
+    ...errorResponses(404, 422, 500),
+  },
+};
+
+export const abortSessionSchema = {
+  tags,
+  summary: 'Поэтапный импорт: отменить сессию',
+  params: sessionParams,
+  response: { 200: successResponse, ...errorResponses(404, 422, 500) },
+};
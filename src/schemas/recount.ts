@@ -0,0 +1,140 @@
+import {
+  dateTime, decimalOut, decimalString, documentParams, documentQuery, errorResponses, nullable, nullableDateTime, nullableDecimalOut,
+  QUANTITY_PATTERN, str, successResponse,
+} from './common.js';
+
+const tags = ['Перепересчёт'];
+
+// Допуск в процентах: Decimal(9,4)
+const PERCENT_PATTERN = '^\\d{1,5}(\\.\\d{1,4})?$';
+
+const recountTask = {
+  type: 'object',
+  description: 'Задание на перепересчёт; в /recount-tasks/my без discrepancy и originalDeviceIds',
+  properties: {
+    id: { type: 'string' },
+    documentId: { type: 'string' },
+    itemId: { type: 'string' },
+    status: { type: 'string', enum: ['OPEN', 'DONE', 'CANCELLED'] },
+    discrepancy: decimalOut,
+    originalDeviceIds: { type: 'array', items: { type: 'string' } },
+    assignedDeviceId: nullable('string'),
+    resultQty: nullableDecimalOut,
+    closedBy: nullable('string'),
+    createdAt: dateTime,
+    closedAt: nullableDateTime,
+    item: {
+      type: 'object',
+      properties: { sku: { type: 'string' }, name: { type: 'string' }, unit: { type: 'string' } },
+    },
+  },
+  additionalProperties: true,
+} as const;
+
+const taskParams = {
+  type: 'object',
+  required: ['taskId'],
+  properties: { taskId: { type: 'string', minLength: 1 } },
+} as const;
+
+const tolerance = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    warehouseId: nullable('string'),
+    unit: nullable('string'),
+    absoluteQty: nullableDecimalOut,
+    percent: nullableDecimalOut,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  },
+  additionalProperties: true,
+} as const;
+
+export const documentTasksSchema = {
+  tags,
+  summary: 'Задания на перепересчёт по документу',
+  params: documentParams,
+  querystring: documentQuery({ status: { type: 'string', enum: ['OPEN', 'DONE', 'CANCELLED'] } }),
+  response: { 200: { type: 'array', items: recountTask }, ...errorResponses(400, 404, 409, 500) },
+};
+
+export const myTasksSchema = {
+  tags,
+  summary: 'Открытые задания, назначенные текущему ТСД',
+  response: { 200: { type: 'array', items: recountTask }, ...errorResponses(400, 500) },
+};
+
+export const submitResultSchema = {
+  tags,
+  summary: 'Результат перепересчёта',
+  params: taskParams,
+  body: {
+    type: 'object',
+    required: ['countedQty'],
+    properties: {
+      countedQty: decimalString,
+      note: { type: 'string', maxLength: 255 },
+      locations: {
+        type: 'array',
+        maxItems: 1000,
+        description: 'Разбивка countedQty по местам хранения; сумма должна совпасть с countedQty',
+        items: {
+          type: 'object',
+          required: ['location', 'countedQty'],
+          properties: {
+            location: { ...str(191), description: 'Код или штрихкод места хранения' },
+            countedQty: { type: 'string', pattern: QUANTITY_PATTERN },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    additionalProperties: false,
+  },
+  response: { 200: recountTask, ...errorResponses(400, 403, 404, 422, 500) },
+};
+
+export const updateTaskSchema = {
+  tags,
+  summary: 'Переназначение или отмена задания',
+  params: taskParams,
+  body: {
+    type: 'object',
+    properties: {
+      assignedDeviceId: { type: ['string', 'null'], maxLength: 191, description: 'null — снять назначение' },
+      status: { type: 'string', enum: ['CANCELLED'], description: 'Вручную можно только отменить' },
+    },
+    additionalProperties: false,
+  },
+  response: { 200: recountTask, ...errorResponses(400, 404, 422, 500) },
+};
+
+export const listTolerancesSchema = {
+  tags,
+  summary: 'Допуски расхождений',
+  response: { 200: { type: 'array', items: tolerance }, ...errorResponses(500) },
+};
+
+export const setToleranceSchema = {
+  tags,
+  summary: 'Создать или изменить допуск (склад + единица)',
+  body: {
+    type: 'object',
+    properties: {
+      warehouseCode: { type: ['string', 'null'], maxLength: 191 },
+      unit: { type: ['string', 'null'], maxLength: 32 },
+      absoluteQty: { type: ['string', 'null'], pattern: QUANTITY_PATTERN, description: 'Decimal(18,6), не меньше 0' },
+      percent: { type: ['string', 'null'], pattern: PERCENT_PATTERN, description: 'Decimal(9,4), не меньше 0' },
+    },
+    additionalProperties: false,
+  },
+  response: { 200: tolerance, ...errorResponses(400, 404, 500) },
+};
+
+export const deleteToleranceSchema = {
+  tags,
+  summary: 'Удалить допуск',
+  params: { type: 'object', required: ['id'], properties: { id: str(191) } },
+  response: { 200: successResponse, ...errorResponses(404, 500) },
+};
@@ -0,0 +1,137 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { UserRole } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { BadRequestError, NotFoundError, ConflictError, logError } from '../errors.js';
+
+// Аутентифицированный субъект запроса
+export interface AuthIdentity {
+  tokenId: string | null; // null — bootstrap-токен администратора из ENV
+  role: UserRole;
+  actorId: string; // код ТСД для токенов устройств, иначе имя токена; пишется в журналы
+  deviceCode: string | null;
+  warehouseCode: string | null; // склад устройства: ТСД работает только с документами своего склада
+}
+
+export interface CreateDevicePayload {
+  code: string;
+  name: string;
+  warehouseCode: string;
+}
+
+export interface IssueTokenPayload {
+  name: string;
+  role: UserRole;
+  deviceCode?: string;
+}
+
+// lastUsedAt обновляем не чаще, чем раз в 5 минут, чтобы не писать в БД на каждый запрос
+const LAST_USED_THROTTLE_MS = 5 * 60 * 1000;
+
+export class AuthService {
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  static async authenticate(token: string): Promise<AuthIdentity | null> {
+    const bootstrap = process.env.ADMIN_API_TOKEN;
+    if (bootstrap && AuthService.safeEqual(token, bootstrap)) {
+      return { tokenId: null, role: 'ADMIN', actorId: 'admin', deviceCode: null, warehouseCode: null };
+    }
+
+    const record = await prisma.apiToken.findUnique({
+      where: { tokenHash: AuthService.hashToken(token) },
+      include: { device: { include: { warehouse: true } } },
+    });
+    if (!record || record.revokedAt) return null;
+    if (record.device && !record.device.isActive) return null;
+
+    if (!record.lastUsedAt || Date.now() - record.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS) {
+      prisma.apiToken
+        .update({ where: { id: record.id }, data: { lastUsedAt: new Date() } })
+        .catch((err) => logError('Token lastUsedAt update error', err));
+    }
+
+    return {
+      tokenId: record.id,
+      role: record.role,
+      actorId: record.device?.code ?? record.name,
+      deviceCode: record.device?.code ?? null,
+      warehouseCode: record.device?.warehouse.code ?? null,
+    };
+  }
+
+  static async createDevice(payload: CreateDevicePayload) {
+    const warehouse = await prisma.warehouse.findUnique({ where: { code: payload.warehouseCode } });
+    if (!warehouse) throw new NotFoundError(`Warehouse ${payload.warehouseCode} not found`);
+
+    const existing = await prisma.device.findUnique({ where: { code: payload.code } });
+    if (existing) throw new ConflictError(`Device ${payload.code} already exists`);
+
+    return await prisma.device.create({
+      data: { code: payload.code, name: payload.name, warehouseId: warehouse.id },
+      include: { warehouse: true },
+    });
+  }
+
+  static async listDevices() {
+    return await prisma.device.findMany({ include: { warehouse: true }, orderBy: { code: 'asc' } });
+  }
+
+  static async setDeviceActive(code: string, isActive: boolean) {
+    const device = await prisma.device.findUnique({ where: { code } });
+    if (!device) throw new NotFoundError(`Device ${code} not found`);
+    return await prisma.device.update({ where: { id: device.id }, data: { isActive }, include: { warehouse: true } });
+  }
+
+  // Выпуск токена: открытое значение возвращается один раз, в БД остаётся только хеш
+  static async issueToken(payload: IssueTokenPayload) {
+    let deviceId: string | null = null;
+    if (payload.deviceCode) {
+      const device = await prisma.device.findUnique({ where: { code: payload.deviceCode } });
+      if (!device) throw new NotFoundError(`Device ${payload.deviceCode} not found`);
+      deviceId = device.id;
+    }
+    if (payload.role === 'COUNTER' && !deviceId) {
+      throw new BadRequestError('COUNTER tokens must be bound to a device');
+    }
+    if (payload.role === 'INTEGRATION_1C' && deviceId) {
+      throw new BadRequestError('INTEGRATION_1C tokens cannot be bound to a device');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const record = await prisma.apiToken.create({
+      data: { name: payload.name, role: payload.role, deviceId, tokenHash: AuthService.hashToken(token) },
+    });
+    return { id: record.id, name: record.name, role: record.role, deviceCode: payload.deviceCode ?? null, token };
+  }
+
+  static async listTokens() {
+    return await prisma.apiToken.findMany({
+      select: {
+        id: true,
+        name: true,
+        role: true,
+        createdAt: true,
+        lastUsedAt: true,
+        revokedAt: true,
+        device: { select: { code: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  static async revokeToken(id: string) {
+    const token = await prisma.apiToken.findUnique({ where: { id } });
+    if (!token) throw new NotFoundError('Token not found');
+    if (!token.revokedAt) {
+      await prisma.apiToken.update({ where: { id }, data: { revokedAt: new Date() } });
+    }
+    return { success: true };
+  }
+
+  private static safeEqual(a: string, b: string): boolean {
+    const ab = Buffer.from(a);
+    const bb = Buffer.from(b);
+    return ab.length === bb.length && timingSafeEqual(ab, bb);
+  }
+}
@@ -0,0 +1,183 @@
+import { InventoryItemBatch, Prisma } from '@prisma/client';
+import { BadRequestError, ConflictError, NotFoundError, UnprocessableEntityError } from '../errors.js';
+
+// Партия строки в импорте 1С: серия и/или срок годности, ожидаемое количество и серийные номера партии
+export interface ImportBatch {
+  batch?: string;
+  expiryDate?: string;
+  qtyFrom1C: string;
+  serials?: string[];
+}
+
+// Партии и серийные номера строки импорта; поле не передано — соответствующие данные строки не меняются
+export interface ItemTracking {
+  batches?: ImportBatch[];
+  serials?: string[]; // серийные номера / коды маркировки без партии
+}
+
+// Партия и серийный номер операции пересчёта ТСД
+export interface CountTracking {
+  batch?: string;
+  expiryDate?: string;
+  serial?: string;
+  countedQty?: string;
+  unit?: string;
+  mode?: 'add' | 'set';
+}
+
+export class BatchService {
+  // Ключ партии: серия, а при учёте только по сроку годности — дата срока с префиксом (@2025-12-31),
+  // чтобы партия без серии не совпала с серией, записанной как дата
+  static key(batch?: string, expiryDate?: string): string | null {
+    if (batch !== undefined) return batch;
+    return expiryDate ? `@${expiryDate.slice(0, 10)}` : null;
+  }
+
+  // Проверка партий строки импорта, которую не выразить схемой; null — всё в порядке
+  static validate(tracking: ItemTracking): string | null {
+    const keys = new Set<string>();
+    for (const b of tracking.batches ?? []) {
+      const key = BatchService.key(b.batch, b.expiryDate);
+      if (!key) return 'batch or expiryDate is required for each batch';
+      if (keys.has(key)) return `Duplicate batch ${key}`;
+      keys.add(key);
+    }
+    const serials = [...(tracking.batches ?? []).flatMap((b) => b.serials ?? []), ...(tracking.serials ?? [])];
+    const seen = new Set<string>();
+    for (const serial of serials) {
+      if (seen.has(serial)) return `Duplicate serial ${serial}`;
+      seen.add(serial);
+    }
+    return null;
+  }
+
+  // Партии и ожидаемые номера строки приводятся к данным 1С. Партии, которых больше нет в 1С,
+  // не удаляются (на них ссылается журнал) — их ожидаемое количество обнуляется. Неотсканированные
+  // номера, которых больше нет в 1С, удаляются, отсканированные остаются как неожиданные.
+  static async applyImport(tx: Prisma.TransactionClient, documentId: string, itemId: string, tracking: ItemTracking) {
+    const batchIds = new Map<string, string>();
+    if (tracking.batches !== undefined) {
+      const keys = tracking.batches.map((b) => BatchService.key(b.batch, b.expiryDate)!);
+      await tx.inventoryItemBatch.updateMany({
+        where: { itemId, batchKey: { notIn: keys }, source: 'ONEC' },
+        data: { qtyFrom1C: 0 },
+      });
+      for (const [idx, b] of tracking.batches.entries()) {
+        const data = {
+          batch: b.batch ?? null,
+          expiryDate: b.expiryDate ? new Date(b.expiryDate.slice(0, 10)) : null,
+          qtyFrom1C: new Prisma.Decimal(b.qtyFrom1C),
+          source: 'ONEC' as const,
+        };
+        const saved = await tx.inventoryItemBatch.upsert({
+          where: { itemId_batchKey: { itemId, batchKey: keys[idx] } },
+          create: { documentId, itemId, batchKey: keys[idx], ...data },
+          update: data,
+        });
+        batchIds.set(keys[idx], saved.id);
+      }
+    }
+    if (tracking.batches === undefined && tracking.serials === undefined) return;
+
+    const serials = [
+      ...(tracking.batches ?? []).flatMap((b) =>
+        (b.serials ?? []).map((serial) => ({ serial, batchId: batchIds.get(BatchService.key(b.batch, b.expiryDate)!)! }))),
+      ...(tracking.serials ?? []).map((serial) => ({ serial, batchId: null as string | null })),
+    ];
+    const codes = serials.map((s) => s.serial);
+    await tx.inventoryItemSerial.deleteMany({ where: { itemId, countedBy: null, serial: { notIn: codes } } });
+    await tx.inventoryItemSerial.updateMany({ where: { itemId, expected: true, serial: { notIn: codes } }, data: { expected: false } });
+    if (serials.length === 0) return;
+
+    await tx.inventoryItemSerial.createMany({
+      data: serials.map((s) => ({ documentId, itemId, batchId: s.batchId, serial: s.serial, expected: true })),
+      skipDuplicates: true,
+    });
+    // Уже известные номера (отсканированные раньше импорта или из другой партии) — к данным 1С
+    const byBatch = new Map<string | null, string[]>();
+    for (const s of serials) byBatch.set(s.batchId, [...(byBatch.get(s.batchId) ?? []), s.serial]);
+    for (const [batchId, group] of byBatch) {
+      await tx.inventoryItemSerial.updateMany({
+        where: { documentId, serial: { in: group } },
+        data: { itemId, batchId, expected: true },
+      });
+    }
+  }
+
+  // Строка документа по серийному номеру, который ожидается по данным 1С
+  static async findItemBySerial(tx: Prisma.TransactionClient, documentId: string, serial: string): Promise<string> {
+    const known = await tx.inventoryItemSerial.findUnique({
+      where: { documentId_serial: { documentId, serial } },
+      select: { itemId: true },
+    });
+    if (!known) throw new NotFoundError(`Serial ${serial} not found`);
+    return known.itemId;
+  }
+
+  // Партия и серийный номер операции ТСД. Серийный номер — ровно одна штука строки в базовой единице:
+  // повторный скан номера в документе — 409 DUPLICATE_SERIAL, номер другой строки — 422.
+  // Партия ищется по ключу, неизвестная заводится как найденная при пересчёте.
+  static async forCount(
+    tx: Prisma.TransactionClient,
+    documentId: string,
+    itemId: string,
+    op: CountTracking,
+    deviceId: string,
+  ): Promise<{ batchId: string | null; serial: string | null }> {
+    if (op.serial !== undefined) {
+      if (op.mode === 'set') throw new BadRequestError('Serial numbers can only be added, not set');
+      if (op.unit !== undefined) throw new BadRequestError('A serial number counts one base unit, unit is not allowed');
+      if (op.countedQty !== undefined && !new Prisma.Decimal(op.countedQty).equals(1)) {
+        throw new BadRequestError('A serial number counts exactly one unit');
+      }
+    }
+
+    const batch = await BatchService.resolveBatch(tx, documentId, itemId, op.batch, op.expiryDate);
+    if (op.serial === undefined) return { batchId: batch?.id ?? null, serial: null };
+
+    const known = await tx.inventoryItemSerial.findUnique({ where: { documentId_serial: { documentId, serial: op.serial } } });
+    if (known?.countedBy) {
+      throw new ConflictError(`Serial ${op.serial} has already been counted by ${known.countedBy}`, { code: 'DUPLICATE_SERIAL' });
+    }
+    if (known && known.itemId !== itemId) throw new UnprocessableEntityError(`Serial ${op.serial} belongs to another item`);
+    if (known?.batchId && batch && known.batchId !== batch.id) {
+      throw new UnprocessableEntityError(`Serial ${op.serial} belongs to another batch`);
+    }
+
+    const batchId = known?.batchId ?? batch?.id ?? null;
+    const counted = { countedBy: deviceId, countedAt: new Date(), batchId };
+    if (known) {
+      // Параллельный скан того же номера другим ТСД: побеждает первый
+      const claimed = await tx.inventoryItemSerial.updateMany({ where: { id: known.id, countedBy: null }, data: counted });
+      if (claimed.count === 0) {
+        throw new ConflictError(`Serial ${op.serial} has already been counted`, { code: 'DUPLICATE_SERIAL' });
+      }
+    } else {
+      await tx.inventoryItemSerial.create({ data: { documentId, itemId, serial: op.serial, ...counted } });
+    }
+    return { batchId, serial: op.serial };
+  }
+
+  private static async resolveBatch(
+    tx: Prisma.TransactionClient,
+    documentId: string,
+    itemId: string,
+    batch?: string,
+    expiryDate?: string,
+  ): Promise<InventoryItemBatch | null> {
+    const key = BatchService.key(batch, expiryDate);
+    if (!key) return null;
+    const existing = await tx.inventoryItemBatch.findUnique({ where: { itemId_batchKey: { itemId, batchKey: key } } });
+    if (existing) return existing;
+    return await tx.inventoryItemBatch.create({
+      data: {
+        documentId,
+        itemId,
+        batch: batch ?? null,
+        batchKey: key,
+        expiryDate: expiryDate ? new Date(expiryDate.slice(0, 10)) : null,
+        source: 'SURPLUS',
+      },
+    });
+  }
+}
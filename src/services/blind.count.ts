@@ -0,0 +1,25 @@
+type BlindSettings = {
+  blindCount: boolean | null;
+  warehouse: { blindCount: boolean };
+};
+
+type ExpectedFields = { qtyFrom1C?: unknown; deltaQty?: unknown };
+
+// Слепой пересчёт: счётчик не должен видеть ожидаемое количество и расхождение,
+// иначе он просто переписывает qtyFrom1C в countedQty
+export class BlindCount {
+  // Настройка документа важнее настройки склада; null — наследуем от склада
+  static isEnabled(document: BlindSettings): boolean {
+    return document.blindCount ?? document.warehouse.blindCount;
+  }
+
+  static maskItems<T extends ExpectedFields>(items: T[]): Array<Omit<T, 'qtyFrom1C' | 'deltaQty'>> {
+    return items.map(({ qtyFrom1C: _qty, deltaQty: _delta, ...rest }) => rest);
+  }
+
+  // Документ для ответа: при hideExpected и включённом слепом режиме строки без qtyFrom1C/deltaQty
+  static apply<D extends BlindSettings & { items: ExpectedFields[] }>(document: D, hideExpected: boolean) {
+    if (!hideExpected || !BlindCount.isEnabled(document)) return document;
+    return { ...document, items: BlindCount.maskItems(document.items) };
+  }
+}
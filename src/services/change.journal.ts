@@ -0,0 +1,19 @@
+import { Prisma } from '@prisma/client';
+
+// Запись журнала изменений строк (InventoryItemChange).
+//
+// Курсор дельта-синхронизации ТСД — docSeq, номер записи внутри документа. Он выдаётся из счётчика
+// InventoryDocument.changeSeq: инкремент блокирует строку документа до конца транзакции, поэтому
+// параллельная запись в тот же документ ждёт коммита и получает следующий номер. Порядок docSeq совпадает
+// с порядком коммитов — в отличие от seq (AUTO_INCREMENT выдаётся до коммита), по которому запись,
+// закоммиченная позже соседней, оказалась бы позади курсора ТСД и не пришла бы ему никогда.
+export class ChangeJournal {
+  static async append(tx: Prisma.TransactionClient, data: Omit<Prisma.InventoryItemChangeUncheckedCreateInput, 'docSeq'>) {
+    const { changeSeq } = await tx.inventoryDocument.update({
+      where: { id: data.documentId },
+      data: { changeSeq: { increment: 1 } },
+      select: { changeSeq: true },
+    });
+    return await tx.inventoryItemChange.create({ data: { ...data, docSeq: changeSeq } });
+  }
+}
@@ -0,0 +1,321 @@
+import { AssignmentPolicy, CountAssignment, CountAssignmentScope, CountAssignmentStatus, Prisma, StorageLocationType } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { BadRequestError, NotFoundError, UnprocessableEntityError } from '../errors.js';
+import { LocationService } from './location.service.js';
+
+export interface CountAssignmentPayload {
+  scope: CountAssignmentScope;
+  name?: string;
+  location?: string; // LOCATION: код или штрихкод места
+  skuFrom?: string; // SKU_RANGE
+  skuTo?: string;
+  skus?: string[]; // ITEMS
+  assignee?: string | null;
+}
+
+// Разбивка документа: по местам уровня type или на parts диапазонов SKU с равным числом строк
+export interface SplitPayload {
+  type?: StorageLocationType;
+  parts?: number;
+  assignees?: string[]; // назначаются новым заданиям по кругу
+}
+
+export interface CountAssignmentUpdate {
+  name?: string | null;
+  assignee?: string | null;
+  status?: CountAssignmentStatus;
+}
+
+type ScopeItem = { id: string; sku: string; locationId: string | null };
+
+// Задание с развёрнутым охватом: строки списка и места поддерева
+type ScopedAssignment = CountAssignment & { itemIds: Set<string>; locationIds: Set<string> };
+
+const assignmentInclude = {
+  location: { select: { id: true, code: true, name: true, type: true } },
+  items: { select: { item: { select: { sku: true } } } },
+} satisfies Prisma.CountAssignmentInclude;
+
+type AssignmentWithRelations = Prisma.CountAssignmentGetPayload<{ include: typeof assignmentInclude }>;
+
+function toResponse({ items, ...assignment }: AssignmentWithRelations) {
+  return { ...assignment, skus: items.map((i) => i.item.sku).sort() };
+}
+
+export class CountAssignmentService {
+  static async listForDocument(documentId: string, status?: CountAssignmentStatus) {
+    const assignments = await prisma.countAssignment.findMany({
+      where: { documentId, ...(status ? { status } : {}) },
+      include: assignmentInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+    return assignments.map(toResponse);
+  }
+
+  // Открытые задания счётчика (ТСД или пользователя) по всем документам
+  static async listForAssignee(assignee: string) {
+    const assignments = await prisma.countAssignment.findMany({
+      where: { assignee, status: 'OPEN' },
+      include: { ...assignmentInclude, document: { select: { id: true, externalId: true, onecNumber: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return assignments.map(toResponse);
+  }
+
+  static async create(documentId: string, payload: CountAssignmentPayload, createdBy: string) {
+    const created = await prisma.$transaction(async (tx) => {
+      const document = await tx.inventoryDocument.findUnique({ where: { id: documentId } });
+      if (!document) throw new NotFoundError('Document not found');
+      if (payload.assignee) await CountAssignmentService.assertAssignee(tx, payload.assignee);
+
+      const data: Prisma.CountAssignmentUncheckedCreateInput = {
+        documentId,
+        scope: payload.scope,
+        name: payload.name,
+        assignee: payload.assignee ?? null,
+        createdBy,
+      };
+      let itemIds: string[] = [];
+      switch (payload.scope) {
+        case 'LOCATION': {
+          if (!payload.location) throw new BadRequestError('location is required for LOCATION assignments');
+          data.locationId = (await LocationService.resolve(tx, document.warehouseId, payload.location)).id;
+          break;
+        }
+        case 'SKU_RANGE': {
+          if (payload.skuFrom === undefined && payload.skuTo === undefined) {
+            throw new BadRequestError('skuFrom or skuTo is required for SKU_RANGE assignments');
+          }
+          if (payload.skuFrom !== undefined && payload.skuTo !== undefined && payload.skuFrom > payload.skuTo) {
+            throw new BadRequestError('skuFrom must not be greater than skuTo');
+          }
+          data.skuFrom = payload.skuFrom;
+          data.skuTo = payload.skuTo;
+          break;
+        }
+        case 'ITEMS': {
+          const skus = [...new Set(payload.skus ?? [])];
+          if (skus.length === 0) throw new BadRequestError('skus is required for ITEMS assignments');
+          const items = await tx.inventoryItem.findMany({ where: { documentId, sku: { in: skus } }, select: { id: true, sku: true } });
+          const found = new Set(items.map((i) => i.sku));
+          const missing = skus.filter((sku) => !found.has(sku));
+          if (missing.length > 0) {
+            throw new UnprocessableEntityError(`Items not found in document: ${missing.slice(0, 20).join(', ')}`);
+          }
+          itemIds = items.map((i) => i.id);
+          break;
+        }
+      }
+
+      const assignment = await tx.countAssignment.create({ data });
+      if (itemIds.length > 0) {
+        await tx.countAssignmentItem.createMany({ data: itemIds.map((itemId) => ({ assignmentId: assignment.id, itemId })) });
+      }
+      return assignment;
+    });
+    return await CountAssignmentService.get(created.id);
+  }
+
+  // По местам: задание на каждую активную зону (ряд, ячейку) склада, места с заданием пропускаются.
+  // По SKU: строки документа по порядку SKU делятся на parts непересекающихся диапазонов
+  static async split(documentId: string, payload: SplitPayload, createdBy: string) {
+    if ((payload.type === undefined) === (payload.parts === undefined)) {
+      throw new BadRequestError('Either type or parts must be provided');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const document = await tx.inventoryDocument.findUnique({ where: { id: documentId } });
+      if (!document) throw new NotFoundError('Document not found');
+      for (const assignee of payload.assignees ?? []) await CountAssignmentService.assertAssignee(tx, assignee);
+      const assigneeAt = (index: number) => payload.assignees?.length ? payload.assignees[index % payload.assignees.length] : null;
+
+      let data: Prisma.CountAssignmentCreateManyInput[];
+      if (payload.type) {
+        const [locations, taken] = await Promise.all([
+          tx.storageLocation.findMany({
+            where: { warehouseId: document.warehouseId, type: payload.type, isActive: true },
+            select: { id: true },
+            orderBy: { code: 'asc' },
+          }),
+          tx.countAssignment.findMany({ where: { documentId, locationId: { not: null } }, select: { locationId: true } }),
+        ]);
+        if (locations.length === 0) {
+          throw new UnprocessableEntityError(`Warehouse ${document.warehouseCode} has no active ${payload.type} locations`);
+        }
+        const takenIds = new Set(taken.map((a) => a.locationId));
+        data = locations
+          .filter((l) => !takenIds.has(l.id))
+          .map((l, index) => ({ documentId, scope: 'LOCATION', locationId: l.id, assignee: assigneeAt(index), createdBy }));
+      } else {
+        const items = await tx.inventoryItem.findMany({ where: { documentId }, select: { sku: true } });
+        const skus = items.map((i) => i.sku).sort();
+        if (skus.length === 0) throw new UnprocessableEntityError('Document has no items');
+        const parts = Math.min(payload.parts!, skus.length);
+        data = [];
+        for (let part = 0; part < parts; part++) {
+          const first = Math.floor((part * skus.length) / parts);
+          const last = Math.floor(((part + 1) * skus.length) / parts) - 1;
+          data.push({ documentId, scope: 'SKU_RANGE', skuFrom: skus[first], skuTo: skus[last], assignee: assigneeAt(part), createdBy });
+        }
+      }
+      if (data.length > 0) await tx.countAssignment.createMany({ data });
+    });
+    return await CountAssignmentService.listForDocument(documentId);
+  }
+
+  // Назначение, переименование или смена статуса; закрытое задание можно вернуть в работу (OPEN)
+  static async update(assignmentId: string, update: CountAssignmentUpdate) {
+    const assignment = await prisma.countAssignment.findUnique({ where: { id: assignmentId } });
+    if (!assignment) throw new NotFoundError('Count assignment not found');
+
+    if (update.assignee) await CountAssignmentService.assertAssignee(prisma, update.assignee);
+    await prisma.countAssignment.update({
+      where: { id: assignment.id },
+      data: { assignee: update.assignee, name: update.name, status: update.status },
+    });
+    return await CountAssignmentService.get(assignment.id);
+  }
+
+  static async delete(assignmentId: string) {
+    const assignment = await prisma.countAssignment.findUnique({ where: { id: assignmentId } });
+    if (!assignment) throw new NotFoundError('Count assignment not found');
+    await prisma.countAssignment.delete({ where: { id: assignment.id } });
+    return { success: true };
+  }
+
+  // Прогресс документа: строки посчитаны / ожидают по каждому заданию и каждому счётчику.
+  // Строка посчитана, если по ней есть хоть один пересчёт (любого устройства, в любом месте)
+  static async progress(documentId: string) {
+    const document = await prisma.inventoryDocument.findUnique({ where: { id: documentId } });
+    if (!document) throw new NotFoundError('Document not found');
+
+    const [items, assignments, counts] = await Promise.all([
+      prisma.inventoryItem.findMany({ where: { documentId }, select: { id: true, sku: true, locationId: true } }),
+      CountAssignmentService.loadActive(prisma, document),
+      prisma.inventoryItemChange.groupBy({
+        by: ['itemId', 'deviceId', 'locationId'],
+        where: { documentId, kind: 'COUNT' },
+      }),
+    ]);
+
+    const counted = new Set(counts.map((c) => c.itemId));
+    const countedBy = new Map<string, Set<string>>();
+    const countedAt = new Map<string, Set<string>>();
+    for (const c of counts) {
+      if (!countedBy.has(c.deviceId)) countedBy.set(c.deviceId, new Set());
+      countedBy.get(c.deviceId)!.add(c.itemId);
+      if (c.locationId) {
+        if (!countedAt.has(c.itemId)) countedAt.set(c.itemId, new Set());
+        countedAt.get(c.itemId)!.add(c.locationId);
+      }
+    }
+
+    const linesOf = new Map(assignments.map((a) => [
+      a.id,
+      new Set(items.filter((item) => CountAssignmentService.covers(a, item, countedAt.get(item.id))).map((i) => i.id)),
+    ]));
+    const lineStats = (lines: Set<string>) => {
+      const countedLines = [...lines].filter((id) => counted.has(id)).length;
+      return { totalLines: lines.size, countedLines, pendingLines: lines.size - countedLines };
+    };
+
+    const assigned = new Set([...linesOf.values()].flatMap((lines) => [...lines]));
+    const counters = new Set([
+      ...assignments.flatMap((a) => (a.assignee ? [a.assignee] : [])),
+      ...countedBy.keys(),
+    ]);
+
+    return {
+      documentId,
+      ...lineStats(new Set(items.map((i) => i.id))),
+      unassignedLines: items.filter((i) => !assigned.has(i.id)).length,
+      assignments: assignments.map((a) => ({
+        id: a.id,
+        name: a.name,
+        scope: a.scope,
+        status: a.status,
+        assignee: a.assignee,
+        ...lineStats(linesOf.get(a.id)!),
+      })),
+      counters: [...counters].sort().map((counter) => {
+        const own = assignments.filter((a) => a.assignee === counter);
+        const lines = new Set(own.flatMap((a) => [...linesOf.get(a.id)!]));
+        const mine = countedBy.get(counter) ?? new Set<string>();
+        return {
+          counter,
+          assignments: own.length,
+          ...lineStats(lines),
+          countedByCounter: mine.size, // строки, которые считал сам счётчик
+          outsideLines: assignments.length > 0 ? [...mine].filter((id) => !lines.has(id)).length : 0,
+        };
+      }),
+    };
+  }
+
+  // Проверка строки для счётчика: null — проверять нечего (политика OFF или у документа нет заданий),
+  // иначе функция, отвечающая, входит ли строка в задания этого счётчика
+  static async assignmentCheck(
+    db: Prisma.TransactionClient,
+    document: { id: string; warehouseId: string; assignmentPolicy: AssignmentPolicy | null; warehouse: { assignmentPolicy: AssignmentPolicy } },
+    assignee: string,
+  ): Promise<{ policy: AssignmentPolicy; covers: (item: ScopeItem, locationId?: string | null) => boolean } | null> {
+    const policy = document.assignmentPolicy ?? document.warehouse.assignmentPolicy;
+    if (policy === 'OFF') return null;
+    const assignments = await CountAssignmentService.loadActive(db, document);
+    if (assignments.length === 0) return null;
+    const own = assignments.filter((a) => a.assignee === assignee);
+    return {
+      policy,
+      covers: (item, locationId) => {
+        const countedAt = locationId ? new Set([locationId]) : undefined;
+        return own.some((a) => CountAssignmentService.covers(a, item, countedAt));
+      },
+    };
+  }
+
+  // Строка входит в задание: по списку, по диапазону SKU (сравнение строк побайтно) или по месту —
+  // место хранения строки из 1С либо место, где строку посчитали, лежит внутри места задания
+  static covers(assignment: ScopedAssignment, item: ScopeItem, countedAt?: Set<string>): boolean {
+    switch (assignment.scope) {
+      case 'ITEMS':
+        return assignment.itemIds.has(item.id);
+      case 'SKU_RANGE':
+        return (assignment.skuFrom === null || item.sku >= assignment.skuFrom)
+          && (assignment.skuTo === null || item.sku <= assignment.skuTo);
+      case 'LOCATION':
+        return (item.locationId !== null && assignment.locationIds.has(item.locationId))
+          || [...(countedAt ?? [])].some((id) => assignment.locationIds.has(id));
+    }
+  }
+
+  // Действующие (не отменённые) задания документа с развёрнутым охватом
+  private static async loadActive(db: Prisma.TransactionClient, document: { id: string; warehouseId: string }): Promise<ScopedAssignment[]> {
+    const assignments = await db.countAssignment.findMany({
+      where: { documentId: document.id, status: { not: 'CANCELLED' } },
+      include: { items: { select: { itemId: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const locations = assignments.some((a) => a.locationId)
+      ? await db.storageLocation.findMany({ where: { warehouseId: document.warehouseId }, select: { id: true, parentId: true } })
+      : [];
+    return assignments.map(({ items, ...a }) => ({
+      ...a,
+      itemIds: new Set(items.map((i) => i.itemId)),
+      locationIds: new Set(a.locationId ? LocationService.subtree(locations, a.locationId) : []),
+    }));
+  }
+
+  private static async get(assignmentId: string) {
+    const assignment = await prisma.countAssignment.findUnique({ where: { id: assignmentId }, include: assignmentInclude });
+    if (!assignment) throw new NotFoundError('Count assignment not found');
+    return toResponse(assignment);
+  }
+
+  // Счётчик — ТСД (код) или пользователь (имя действующего токена без устройства): так он пишется в журнал
+  private static async assertAssignee(db: Prisma.TransactionClient, assignee: string) {
+    const device = await db.device.findUnique({ where: { code: assignee } });
+    if (device) return;
+    const token = await db.apiToken.findFirst({ where: { name: assignee, deviceId: null, revokedAt: null } });
+    if (!token) throw new NotFoundError(`Counter ${assignee} not found`);
+  }
+}
@@ -0,0 +1,54 @@
+import { EventEmitter } from 'node:events';
+import { DocStatus, Prisma } from '@prisma/client';
+
+export interface ItemState {
+  sku: string;
+  countedQty: string | null;
+  correctedQty: string | null;
+  note: string | null;
+  lastModified: string;
+}
+
+export type DocumentEvent =
+  | { type: 'items.changed'; documentId: string; version: number; deviceId: string; items: ItemState[] }
+  | { type: 'status.changed'; documentId: string; version: number; status: DocStatus; changedBy: string }
+  | { type: 'document.imported'; documentId: string; version: number; itemCount: number };
+
+type ItemRow = {
+  sku: string;
+  countedQty: Prisma.Decimal | null;
+  correctedQty: Prisma.Decimal | null;
+  note: string | null;
+  updatedAt: Date;
+};
+
+// Шина событий документа в пределах процесса: сервисы публикуют после коммита транзакции,
+// SSE-подписчики (/inventory-documents/:id/events) получают их по documentId.
+export class DocumentEvents {
+  private static emitter = (() => {
+    const e = new EventEmitter();
+    e.setMaxListeners(0); // по подписчику на каждый открытый ТСД/браузер
+    return e;
+  })();
+
+  static publish(event: DocumentEvent) {
+    DocumentEvents.emitter.emit(event.documentId, event);
+  }
+
+  static subscribe(documentId: string, listener: (event: DocumentEvent) => void): () => void {
+    DocumentEvents.emitter.on(documentId, listener);
+    return () => {
+      DocumentEvents.emitter.off(documentId, listener);
+    };
+  }
+
+  static toItemState(item: ItemRow): ItemState {
+    return {
+      sku: item.sku,
+      countedQty: item.countedQty?.toString() ?? null,
+      correctedQty: item.correctedQty?.toString() ?? null,
+      note: item.note,
+      lastModified: item.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { DocStatus, Prisma } from '@prisma/client';
+import { WebhookService } from './webhook.service.js';
+import { UnprocessableEntityError } from '../errors.js';
+
+// Таблица допустимых переходов статуса документа.
+// REVISED -> IMPORTED — явное переоткрытие (reopen) администратором.
+export const DOCUMENT_TRANSITIONS: Record<DocStatus, DocStatus[]> = {
+  NEW: ['IMPORTED'],
+  IMPORTED: ['REVISED'],
+  REVISED: ['EXPORTED', 'IMPORTED'],
+  EXPORTED: [],
+};
+
+// Статусы, в которых можно менять строки (пересчёт с ТСД) и повторно импортировать документ из 1С
+export const EDITABLE_STATUSES: DocStatus[] = ['NEW', 'IMPORTED'];
+
+// Статусы, в которых документ выгружается в 1С (создаётся снимок экспорта)
+export const EXPORTABLE_STATUSES: DocStatus[] = ['REVISED', 'EXPORTED'];
+
+type DocumentRef = { id: string; status: DocStatus };
+
+export class DocumentLifecycle {
+  static canTransition(from: DocStatus, to: DocStatus): boolean {
+    return DOCUMENT_TRANSITIONS[from].includes(to);
+  }
+
+  static assertTransition(document: DocumentRef, to: DocStatus) {
+    if (!DocumentLifecycle.canTransition(document.status, to)) {
+      throw new UnprocessableEntityError(`Transition ${document.status} -> ${to} is not allowed`);
+    }
+  }
+
+  static assertEditable(document: DocumentRef) {
+    if (!EDITABLE_STATUSES.includes(document.status)) {
+      throw new UnprocessableEntityError(`Document in status ${document.status} cannot be modified`);
+    }
+  }
+
+  // Переводит документ в новый статус (с инкрементом версии) и пишет запись в историю.
+  // Вызывается только внутри транзакции сервиса.
+  static async transition(
+    tx: Prisma.TransactionClient,
+    document: DocumentRef,
+    to: DocStatus,
+    changedBy: string,
+    reason?: string,
+  ) {
+    DocumentLifecycle.assertTransition(document, to);
+
+    const updated = await tx.inventoryDocument.update({
+      where: { id: document.id },
+      data: { status: to, version: { increment: 1 } },
+    });
+    await tx.inventoryDocumentStatusHistory.create({
+      data: {
+        documentId: document.id,
+        fromStatus: document.status,
+        toStatus: to,
+        changedBy,
+        reason,
+      },
+    });
+    await WebhookService.enqueueForTransition(tx, updated, document.status, changedBy);
+    return updated;
+  }
+
+  // Первичная запись истории для только что созданного документа
+  static async recordCreated(tx: Prisma.TransactionClient, documentId: string, status: DocStatus, changedBy: string) {
+    await tx.inventoryDocumentStatusHistory.create({
+      data: { documentId, fromStatus: null, toStatus: status, changedBy },
+    });
+  }
+}
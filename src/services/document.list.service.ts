@@ -0,0 +1,189 @@
+import { DocStatus, Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { BlindCount } from './blind.count.js';
+import { BadRequestError } from '../errors.js';
+
+// full — документ со строками (как раньше), summary — вместо строк счётчики
+export type DocumentListView = 'full' | 'summary';
+
+export interface DocumentListQuery {
+  warehouseCode?: string;
+  status?: DocStatus[];
+  onecNumber?: string; // поиск по вхождению
+  onecDateFrom?: string;
+  onecDateTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  cursor?: string;
+  limit?: number; // не задан — весь список (старый маршрут склада)
+  view?: DocumentListView;
+}
+
+// Счётчики по строкам. В слепом режиме у ТСД — только totalLines и countedLines:
+// расхождение выдаёт ожидаемое количество так же, как qtyFrom1C
+export interface DocumentSummary {
+  totalLines: number;
+  countedLines: number;
+  discrepancyLines?: number;
+  surplusQty?: string;
+  shortageQty?: string;
+}
+
+export interface DocumentPage<T> {
+  documents: T[];
+  nextCursor: string | null;
+}
+
+type SummaryRow = {
+  documentId: string;
+  totalLines: bigint;
+  countedLines: Prisma.Decimal | null;
+  discrepancyLines: Prisma.Decimal | null;
+  surplusQty: Prisma.Decimal | null;
+  shortageQty: Prisma.Decimal | null;
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Документ без строк
+const EMPTY_SUMMARY: DocumentSummary = { totalLines: 0, countedLines: 0, discrepancyLines: 0, surplusQty: '0', shortageQty: '0' };
+
+const itemListSelect = {
+  id: true,
+  sku: true,
+  name: true,
+  unit: true,
+  qtyFrom1C: true,
+  countedQty: true,
+  correctedQty: true,
+  deltaQty: true,
+  note: true,
+} satisfies Prisma.InventoryItemSelect;
+
+// Границы периода включительно; дата без времени в "to" — весь этот день
+function dateRange(from?: string, to?: string): Prisma.DateTimeFilter | undefined {
+  if (!from && !to) return undefined;
+  const range: Prisma.DateTimeFilter = {};
+  if (from) range.gte = new Date(from);
+  if (to) {
+    if (DATE_ONLY.test(to)) {
+      const end = new Date(to);
+      end.setUTCDate(end.getUTCDate() + 1);
+      range.lt = end;
+    } else {
+      range.lte = new Date(to);
+    }
+  }
+  return range;
+}
+
+export class DocumentListService {
+  // Курсор — позиция последнего документа страницы в порядке (createdAt desc, id desc); для клиента непрозрачен
+  static encodeCursor(document: { createdAt: Date; id: string }): string {
+    return Buffer.from(`${document.createdAt.toISOString()}|${document.id}`).toString('base64url');
+  }
+
+  static decodeCursor(cursor: string): { createdAt: Date; id: string } {
+    const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const date = new Date(createdAt);
+    if (!id || Number.isNaN(date.getTime())) throw new BadRequestError('Invalid cursor');
+    return { createdAt: date, id };
+  }
+
+  static where(query: DocumentListQuery): Prisma.InventoryDocumentWhereInput {
+    const and: Prisma.InventoryDocumentWhereInput[] = [];
+    if (query.cursor) {
+      const { createdAt, id } = DocumentListService.decodeCursor(query.cursor);
+      and.push({ OR: [{ createdAt: { lt: createdAt } }, { createdAt, id: { lt: id } }] });
+    }
+    return {
+      warehouseCode: query.warehouseCode,
+      status: query.status?.length ? { in: query.status } : undefined,
+      onecNumber: query.onecNumber ? { contains: query.onecNumber } : undefined,
+      onecDate: dateRange(query.onecDateFrom, query.onecDateTo),
+      createdAt: dateRange(query.createdFrom, query.createdTo),
+      AND: and,
+    };
+  }
+
+  // Лишний документ сверх limit означает, что есть следующая страница
+  static paginate<T extends { createdAt: Date; id: string }>(documents: T[], limit?: number): DocumentPage<T> {
+    if (limit === undefined || documents.length <= limit) return { documents, nextCursor: null };
+    const page = documents.slice(0, limit);
+    return { documents: page, nextCursor: DocumentListService.encodeCursor(page[page.length - 1]) };
+  }
+
+  // hideExpected — запрос от счётчика: в слепом режиме ожидаемые количества и расхождения не отдаются
+  static async list(query: DocumentListQuery, hideExpected = false): Promise<DocumentPage<unknown>> {
+    const where = DocumentListService.where(query);
+    const orderBy: Prisma.InventoryDocumentOrderByWithRelationInput[] = [{ createdAt: 'desc' }, { id: 'desc' }];
+    const take = query.limit !== undefined ? query.limit + 1 : undefined;
+
+    if ((query.view ?? 'full') === 'full') {
+      const documents = await prisma.inventoryDocument.findMany({
+        where,
+        orderBy,
+        take,
+        include: { warehouse: true, items: { select: itemListSelect } },
+      });
+      const page = DocumentListService.paginate(documents, query.limit);
+      return { ...page, documents: page.documents.map((doc) => BlindCount.apply(doc, hideExpected)) };
+    }
+
+    const documents = await prisma.inventoryDocument.findMany({ where, orderBy, take, include: { warehouse: true } });
+    const page = DocumentListService.paginate(documents, query.limit);
+    const summaries = await DocumentListService.summaries(page.documents.map((doc) => doc.id));
+    return {
+      ...page,
+      documents: page.documents.map((doc) => {
+        const summary = summaries.get(doc.id) ?? EMPTY_SUMMARY;
+        if (hideExpected && BlindCount.isEnabled(doc)) {
+          return { ...doc, summary: { totalLines: summary.totalLines, countedLines: summary.countedLines } };
+        }
+        return { ...doc, summary };
+      }),
+    };
+  }
+
+  // Счётчики одним запросом на страницу. Расхождение строки: после фиксации — deltaQty (итог сверки
+  // по устройствам), до неё — текущий итог строки минус qtyFrom1C; непосчитанные строки до фиксации
+  // расхождением не считаются. В surplusQty входят и неразобранные излишки (OPEN), как unresolvedSurplus в выгрузке
+  static async summaries(documentIds: string[]): Promise<Map<string, DocumentSummary>> {
+    if (documentIds.length === 0) return new Map();
+    const rows = await prisma.$queryRaw<SummaryRow[]>`
+      SELECT t.documentId,
+        COUNT(*) AS totalLines,
+        SUM(t.counted) AS countedLines,
+        SUM(COALESCE(t.delta, 0) <> 0) AS discrepancyLines,
+        SUM(GREATEST(COALESCE(t.delta, 0), 0)) AS surplusQty,
+        SUM(GREATEST(-COALESCE(t.delta, 0), 0)) AS shortageQty
+      FROM (
+        SELECT i.documentId,
+          (i.countedQty IS NOT NULL OR i.correctedQty IS NOT NULL) AS counted,
+          CASE WHEN d.status IN ('REVISED', 'EXPORTED') THEN i.deltaQty
+            ELSE COALESCE(i.correctedQty, i.countedQty) - i.qtyFrom1C END AS delta
+        FROM InventoryItem i JOIN InventoryDocument d ON d.id = i.documentId
+        WHERE i.documentId IN (${Prisma.join(documentIds)})
+      ) t
+      GROUP BY t.documentId`;
+    const openSurplus = await prisma.inventorySurplusLine.groupBy({
+      by: ['documentId'],
+      where: { documentId: { in: documentIds }, status: 'OPEN' },
+      _sum: { countedQty: true },
+    });
+    const unresolved = new Map(openSurplus.map((row) => [row.documentId, row._sum.countedQty ?? new Prisma.Decimal(0)]));
+
+    const summaries = new Map<string, DocumentSummary>(rows.map((row) => [row.documentId, {
+      totalLines: Number(row.totalLines),
+      countedLines: Number(row.countedLines ?? 0),
+      discrepancyLines: Number(row.discrepancyLines ?? 0),
+      surplusQty: new Prisma.Decimal(row.surplusQty ?? 0).add(unresolved.get(row.documentId) ?? 0).toString(),
+      shortageQty: new Prisma.Decimal(row.shortageQty ?? 0).toString(),
+    }]));
+    // Документ без строк, но с излишками
+    for (const [documentId, qty] of unresolved) {
+      if (!summaries.has(documentId)) summaries.set(documentId, { ...EMPTY_SUMMARY, surplusQty: qty.toString() });
+    }
+    return summaries;
+  }
+}
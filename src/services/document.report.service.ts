@@ -0,0 +1,284 @@
+import ExcelJS from 'exceljs';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { InventoryService } from './inventory.service.js';
+import { InventoryReconciliationService } from './inventory.reconciliation.service.js';
+import { NotFoundError } from '../errors.js';
+import { DocumentResolver } from './document.resolver.js';
+
+export interface ReportOptions {
+  discrepanciesOnly?: boolean;
+}
+
+export interface ReportRow {
+  sku: string;
+  name: string;
+  unit: string;
+  isNew: boolean;
+  expected: string;
+  counted: string;
+  corrected: string;
+  delta: string;
+  note: string;
+  devices: Record<string, string>; // deviceId -> последний счёт устройства
+}
+
+export interface DocumentReport {
+  documentId: string;
+  externalId: string;
+  onecNumber: string;
+  onecDate: Date;
+  status: string;
+  version: number;
+  warehouse: { code: string; name: string };
+  devices: Array<{ id: string; name: string }>;
+  rows: ReportRow[];
+  totals: { expected: string; counted: string; corrected: string; surplus: string; shortage: string };
+  generatedAt: Date;
+}
+
+const DECIMAL_ZERO = new Prisma.Decimal(0);
+
+// Текст, который Excel принял бы за формулу (= + - @, таб, CR в начале), — с «'» впереди и в кавычках.
+// Числа (отрицательное отклонение) остаются числами
+function csvCell(value: string): string {
+  if (/^[=+\-@\t\r]/.test(value) && !/^-\d+(\.\d+)?$/.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+  return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function html(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('ru-RU', { timeZone: 'UTC' });
+}
+
+// Отчёты по документу для печати и работы офлайн: CSV, XLSX, инвентаризационная опись (ИНВ-3).
+// Количества берутся из buildExport — тех же данных, что уходят в 1С; по устройствам — из сверки.
+export class DocumentReportService {
+  static async build(id: string, options: ReportOptions = {}): Promise<DocumentReport> {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
+
+    const document = await prisma.inventoryDocument.findUnique({
+      where: { id: resolvedId },
+      include: { warehouse: true, items: { select: { sku: true, note: true } } },
+    });
+    if (!document) throw new NotFoundError('Document not found');
+
+    const data = await InventoryService.buildExport(prisma, resolvedId);
+    const reconciled = await InventoryReconciliationService.reconcile(prisma, resolvedId);
+    const bySku = new Map(reconciled.map((r) => [r.sku, r]));
+    const notes = new Map(document.items.map((i) => [i.sku, i.note ?? '']));
+
+    const deviceIds = [...new Set(reconciled.flatMap((r) => r.devices.map((d) => d.deviceId)))].sort();
+    const known = await prisma.device.findMany({ where: { code: { in: deviceIds } }, select: { code: true, name: true } });
+    const names = new Map(known.map((d) => [d.code, d.name]));
+
+    const totals = { expected: DECIMAL_ZERO, counted: DECIMAL_ZERO, corrected: DECIMAL_ZERO, surplus: DECIMAL_ZERO, shortage: DECIMAL_ZERO };
+    const rows: ReportRow[] = [];
+    for (const item of data.items) {
+      const delta = new Prisma.Decimal(item.deltaQty);
+      if (options.discrepanciesOnly && delta.isZero()) continue;
+
+      const devices: Record<string, string> = {};
+      for (const device of bySku.get(item.sku)?.devices ?? []) {
+        if (device.countedQty !== null) devices[device.deviceId] = device.countedQty.toString();
+      }
+      rows.push({
+        sku: item.sku,
+        name: item.name,
+        unit: item.unit,
+        isNew: item.isNew,
+        expected: item.qtyFrom1C,
+        counted: item.countedQty,
+        corrected: item.correctedQty,
+        delta: item.deltaQty,
+        note: notes.get(item.sku) ?? '',
+        devices,
+      });
+
+      totals.expected = totals.expected.add(item.qtyFrom1C);
+      totals.counted = totals.counted.add(item.countedQty);
+      totals.corrected = totals.corrected.add(item.correctedQty);
+      if (delta.isPositive() && !delta.isZero()) totals.surplus = totals.surplus.add(delta);
+      if (delta.isNegative()) totals.shortage = totals.shortage.add(delta.abs());
+    }
+
+    return {
+      documentId: document.id,
+      externalId: document.externalId,
+      onecNumber: document.onecNumber,
+      onecDate: document.onecDate,
+      status: document.status,
+      version: document.version,
+      warehouse: { code: document.warehouse.code, name: document.warehouse.name },
+      devices: deviceIds.map((deviceId) => ({ id: deviceId, name: names.get(deviceId) ?? deviceId })),
+      rows,
+      totals: {
+        expected: totals.expected.toString(),
+        counted: totals.counted.toString(),
+        corrected: totals.corrected.toString(),
+        surplus: totals.surplus.toString(),
+        shortage: totals.shortage.toString(),
+      },
+      generatedAt: new Date(),
+    };
+  }
+
+  private static columns(report: DocumentReport): string[] {
+    return [
+      'SKU', 'Наименование', 'Ед.', 'Учёт', 'Посчитано', 'Итог', 'Отклонение', 'Примечание',
+      ...report.devices.map((d) => `ТСД ${d.name}`),
+    ];
+  }
+
+  private static values(report: DocumentReport, row: ReportRow): string[] {
+    return [
+      row.sku, row.name, row.unit, row.expected, row.counted, row.corrected, row.delta, row.note,
+      ...report.devices.map((d) => row.devices[d.id] ?? ''),
+    ];
+  }
+
+  // CSV для Excel: разделитель «;», UTF-8 с BOM, десятичная точка
+  static toCsv(report: DocumentReport): string {
+    const lines = [DocumentReportService.columns(report), ...report.rows.map((row) => DocumentReportService.values(report, row))];
+    return '﻿' + lines.map((cells) => cells.map(csvCell).join(';')).join('\r\n') + '\r\n';
+  }
+
+  static async toXlsx(report: DocumentReport): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = report.generatedAt;
+    const sheet = workbook.addWorksheet(`Опись ${report.onecNumber}`.slice(0, 31).replace(/[\\/?*[\]:]/g, '_'), {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+
+    const numeric = new Set([3, 4, 5, 6]);
+    const header = DocumentReportService.columns(report);
+    sheet.columns = header.map((title, idx) => ({
+      header: title,
+      width: idx === 1 ? 40 : idx === 7 ? 30 : 14,
+      style: numeric.has(idx) || idx >= 8 ? { numFmt: '#,##0.###' } : {},
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    for (const row of report.rows) {
+      const values: (string | number | null)[] = DocumentReportService.values(report, row);
+      // Количества — числами, чтобы в Excel работали суммы и фильтры
+      sheet.addRow(values.map((value, idx) => ((numeric.has(idx) || idx >= 8) && value !== '' ? Number(value) : value)));
+    }
+    const totalRow = sheet.addRow([
+      'Итого', '', '', Number(report.totals.expected), Number(report.totals.counted), Number(report.totals.corrected),
+      Number(new Prisma.Decimal(report.totals.surplus).sub(report.totals.shortage)),
+    ]);
+    totalRow.font = { bold: true };
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: header.length } };
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  // Печатная инвентаризационная опись по мотивам ИНВ-3: итоги и блоки подписей комиссии.
+  // PDF — печатью страницы в браузере, стили рассчитаны на A4 альбомной ориентации.
+  static toHtml(report: DocumentReport): string {
+    const rows = report.rows.map((row, idx) => {
+      const delta = new Prisma.Decimal(row.delta);
+      return `<tr>
+        <td class="n">${idx + 1}</td>
+        <td>${html(row.name)}${row.isNew ? ' <em>(не числится в учёте)</em>' : ''}</td>
+        <td>${html(row.sku)}</td>
+        <td>${html(row.unit)}</td>
+        <td class="n">${html(row.corrected)}</td>
+        <td class="n">${html(row.expected)}</td>
+        <td class="n">${delta.isPositive() && !delta.isZero() ? html(row.delta) : ''}</td>
+        <td class="n">${delta.isNegative() ? html(delta.abs().toString()) : ''}</td>
+        <td>${html(row.note)}</td>
+      </tr>`;
+    }).join('\n');
+
+    const signature = (title: string) => `<div class="sign"><span class="title">${title}</span>
+      <span class="line"></span><span class="line short"></span><span class="line"></span>
+      <div class="hint"><span>должность</span><span>подпись</span><span>расшифровка подписи</span></div></div>`;
+
+    return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>Инвентаризационная опись № ${html(report.onecNumber)}</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  body { font-family: "Times New Roman", serif; font-size: 11pt; color: #000; }
+  h1 { font-size: 14pt; text-align: center; margin: 8px 0 2px; }
+  .sub { text-align: center; margin-bottom: 12px; }
+  .meta td { padding: 1px 8px 1px 0; }
+  table.items { width: 100%; border-collapse: collapse; margin-top: 10px; }
+  table.items th, table.items td { border: 1px solid #000; padding: 2px 4px; vertical-align: top; }
+  table.items th { font-weight: normal; text-align: center; }
+  table.items thead { display: table-header-group; }
+  table.items tr { page-break-inside: avoid; }
+  td.n { text-align: right; white-space: nowrap; }
+  tr.total td { font-weight: bold; }
+  .summary { margin: 12px 0; }
+  .sign { margin-top: 14px; page-break-inside: avoid; }
+  .sign .title { display: inline-block; width: 260px; }
+  .sign .line { display: inline-block; border-bottom: 1px solid #000; width: 180px; margin-right: 12px; }
+  .sign .line.short { width: 110px; }
+  .sign .hint { margin-left: 264px; font-size: 8pt; }
+  .sign .hint span { display: inline-block; width: 192px; text-align: center; }
+  .sign .hint span:nth-child(2) { width: 122px; }
+  .statement { margin-top: 14px; page-break-inside: avoid; }
+  @media print { .noprint { display: none; } }
+</style>
+</head>
+<body>
+<div class="noprint"><button onclick="window.print()">Печать / сохранить в PDF</button></div>
+<h1>ИНВЕНТАРИЗАЦИОННАЯ ОПИСЬ № ${html(report.onecNumber)}</h1>
+<div class="sub">товарно-материальных ценностей</div>
+<table class="meta">
+  <tr><td>Склад:</td><td>${html(report.warehouse.name)} (${html(report.warehouse.code)})</td></tr>
+  <tr><td>Документ 1С:</td><td>№ ${html(report.onecNumber)} от ${formatDate(report.onecDate)}</td></tr>
+  <tr><td>Дата составления:</td><td>${formatDate(report.generatedAt)}</td></tr>
+  <tr><td>Статус документа:</td><td>${html(report.status)}, версия ${report.version}</td></tr>
+</table>
+
+<p class="statement">РАСПИСКА. К началу проведения инвентаризации все расходные и приходные документы на ценности сданы в бухгалтерию
+и все ценности, поступившие на мою (нашу) ответственность, оприходованы, а выбывшие списаны в расход.</p>
+${signature('Материально ответственное лицо')}
+
+<table class="items">
+  <thead>
+    <tr>
+      <th rowspan="2">№ п/п</th><th rowspan="2">Наименование</th><th rowspan="2">Артикул</th><th rowspan="2">Ед. изм.</th>
+      <th>Фактическое наличие</th><th>По данным учёта</th><th colspan="2">Отклонение</th><th rowspan="2">Примечание</th>
+    </tr>
+    <tr><th>количество</th><th>количество</th><th>излишек</th><th>недостача</th></tr>
+  </thead>
+  <tbody>
+${rows}
+    <tr class="total">
+      <td></td><td colspan="3">Итого</td>
+      <td class="n">${html(report.totals.corrected)}</td>
+      <td class="n">${html(report.totals.expected)}</td>
+      <td class="n">${html(report.totals.surplus)}</td>
+      <td class="n">${html(report.totals.shortage)}</td>
+      <td></td>
+    </tr>
+  </tbody>
+</table>
+
+<div class="summary">
+  Итого по описи: порядковых номеров — ${report.rows.length}; общее количество единиц фактически — ${html(report.totals.corrected)}.
+</div>
+
+${signature('Председатель комиссии')}
+${signature('Член комиссии')}
+${signature('Член комиссии')}
+
+<p class="statement">Все ценности, поименованные в настоящей инвентаризационной описи с № 1 по № ${report.rows.length},
+комиссией проверены в натуре в моём (нашем) присутствии и внесены в опись, в связи с чем претензий к инвентаризационной комиссии не имею (не имеем).
+Ценности, перечисленные в описи, находятся на моём (нашем) ответственном хранении.</p>
+${signature('Материально ответственное лицо')}
+</body>
+</html>
+`;
+  }
+}
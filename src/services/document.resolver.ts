@@ -0,0 +1,67 @@
+import { Prisma } from '@prisma/client';
+import { ConflictError, NotFoundError } from '../errors.js';
+
+// Чем задан документ в пути /inventory-documents/:id (параметр ?by=)
+export type DocumentKeyType = 'id' | 'externalId' | 'onecNumber';
+export const DOCUMENT_KEY_TYPES: DocumentKeyType[] = ['id', 'externalId', 'onecNumber'];
+
+// Сколько совпадений по номеру 1С показывать в ответе 409
+const MAX_CANDIDATES = 20;
+
+const candidateSelect = {
+  id: true,
+  externalId: true,
+  onecNumber: true,
+  onecDate: true,
+  status: true,
+  warehouseCode: true,
+  createdAt: true,
+} satisfies Prisma.InventoryDocumentSelect;
+
+// Ключ документа -> внутренний id. Единственное место, где разбирается :id маршрутов.
+// Без by: id, затем externalId, затем onecNumber. Номер 1С не уникален (новый год, другой склад):
+// если он совпал у нескольких документов, молча выбирать нельзя — 409 со списком кандидатов.
+export class DocumentResolver {
+  static async resolve(
+    db: Prisma.TransactionClient,
+    key: string,
+    by?: DocumentKeyType,
+    warehouseCode?: string | null,
+  ): Promise<string> {
+    const id = await DocumentResolver.find(db, key, by, warehouseCode);
+    if (!id) throw new NotFoundError('Document not found');
+    return id;
+  }
+
+  // warehouseCode — склад устройства: совпадения по номеру 1С ищутся только среди его документов
+  static async find(
+    db: Prisma.TransactionClient,
+    key: string,
+    by?: DocumentKeyType,
+    warehouseCode?: string | null,
+  ): Promise<string | null> {
+    if (!by || by === 'id') {
+      const document = await db.inventoryDocument.findUnique({ where: { id: key }, select: { id: true } });
+      if (document || by) return document?.id ?? null;
+    }
+
+    if (!by || by === 'externalId') {
+      const document = await db.inventoryDocument.findUnique({ where: { externalId: key }, select: { id: true } });
+      if (document || by) return document?.id ?? null;
+    }
+
+    const matches = await db.inventoryDocument.findMany({
+      where: { onecNumber: key, ...(warehouseCode ? { warehouseCode } : {}) },
+      select: candidateSelect,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_CANDIDATES + 1,
+    });
+    if (matches.length > 1) {
+      throw new ConflictError(
+        `Document number ${key} matches ${matches.length > MAX_CANDIDATES ? `more than ${MAX_CANDIDATES}` : matches.length} documents, use ?by=id or ?by=externalId`,
+        { code: 'AMBIGUOUS_DOCUMENT', details: { candidates: matches.slice(0, MAX_CANDIDATES) } },
+      );
+    }
+    return matches[0]?.id ?? null;
+  }
+}
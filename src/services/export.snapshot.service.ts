@@ -0,0 +1,91 @@
+import { createHash } from 'node:crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { InventoryService } from './inventory.service.js';
+import { NotFoundError } from '../errors.js';
+import { DocumentResolver } from './document.resolver.js';
+
+export type ExportPayload = Awaited<ReturnType<typeof InventoryService.buildExport>>;
+
+type Snapshot = Prisma.ExportSnapshotGetPayload<object>;
+
+export type ExportResponse = ReturnType<typeof ExportSnapshotService.toResponse>;
+
+const summarySelect = {
+  id: true,
+  documentId: true,
+  documentVersion: true,
+  hash: true,
+  createdBy: true,
+  createdAt: true,
+  acknowledgedAt: true,
+  acknowledgedBy: true,
+} satisfies Prisma.ExportSnapshotSelect;
+
+export class ExportSnapshotService {
+  // buildExport отдаёт строки и штрихкоды в фиксированном порядке, поэтому одинаковые данные дают одинаковый hash
+  static hash(payload: ExportPayload): string {
+    return createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+  }
+
+  // Ответ экспорта: реквизиты снимка + сами данные
+  static toResponse(snapshot: Snapshot) {
+    return {
+      snapshotId: snapshot.id,
+      hash: snapshot.hash,
+      documentVersion: snapshot.documentVersion,
+      createdAt: snapshot.createdAt,
+      acknowledgedAt: snapshot.acknowledgedAt,
+      ...(snapshot.payload as ExportPayload),
+    };
+  }
+
+  // Снимок текущих итогов документа. Если итоги не менялись с прошлого экспорта — возвращается прежний снимок
+  static async capture(documentId: string, createdBy: string): Promise<Snapshot> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const document = await tx.inventoryDocument.findUnique({ where: { id: documentId } });
+        if (!document) throw new NotFoundError('Document not found');
+
+        const payload = await InventoryService.buildExport(tx, documentId);
+        const hash = ExportSnapshotService.hash(payload);
+        const existing = await tx.exportSnapshot.findUnique({ where: { documentId_hash: { documentId, hash } } });
+        if (existing) return existing;
+
+        return await tx.exportSnapshot.create({
+          data: { documentId, documentVersion: document.version, hash, payload: JSON.parse(JSON.stringify(payload)), createdBy },
+        });
+      }, { maxWait: 5000, timeout: 30000 });
+    } catch (error) {
+      // Тот же снимок параллельно создал другой запрос — он и есть результат
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const payload = await InventoryService.buildExport(prisma, documentId);
+        const existing = await prisma.exportSnapshot.findUnique({
+          where: { documentId_hash: { documentId, hash: ExportSnapshotService.hash(payload) } },
+        });
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  // Подтверждённый 1С снимок документа (после ack он единственный)
+  static async findAcknowledged(db: Prisma.TransactionClient, documentId: string) {
+    return await db.exportSnapshot.findFirst({ where: { documentId, acknowledgedAt: { not: null } } });
+  }
+
+  static async list(id: string) {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
+    return await prisma.exportSnapshot.findMany({
+      where: { documentId: resolvedId },
+      select: summarySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  static async get(snapshotId: string) {
+    const snapshot = await prisma.exportSnapshot.findUnique({ where: { id: snapshotId } });
+    if (!snapshot) throw new NotFoundError('Export snapshot not found');
+    return ExportSnapshotService.toResponse(snapshot);
+  }
+}
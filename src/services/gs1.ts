@@ -0,0 +1,212 @@
+import { Prisma } from '@prisma/client';
+import { BadRequestError } from '../errors.js';
+
+// Данные скана GS1-128 / GS1 DataMatrix
+export interface Gs1Data {
+  gtin: string; // AI 01, 14 цифр
+  batch?: string; // AI 10
+  expiryDate?: string; // AI 17, 2025-12-31
+  serial?: string; // AI 21
+  weight?: string; // AI 310n, кг
+}
+
+// Строка пересчёта, в которой может прийти скан GS1
+export interface ScanLine {
+  barcode?: string;
+  countedQty?: string;
+  batch?: string;
+  expiryDate?: string;
+  serial?: string;
+}
+
+// AI: длина кода и данных. fixed — данные фиксированной длины, иначе переменной до max и FNC1 (GS)
+interface AiFormat {
+  length: number;
+  max: number;
+  fixed?: boolean;
+}
+
+// Префикс AI (две цифры) -> формат; коды, которые не разбираются, всё равно нужно пропустить
+const AI_FORMATS: Record<string, AiFormat> = {
+  '00': { length: 2, max: 18, fixed: true },
+  '01': { length: 2, max: 14, fixed: true },
+  '02': { length: 2, max: 14, fixed: true },
+  '10': { length: 2, max: 20 },
+  '11': { length: 2, max: 6, fixed: true },
+  '12': { length: 2, max: 6, fixed: true },
+  '13': { length: 2, max: 6, fixed: true },
+  '15': { length: 2, max: 6, fixed: true },
+  '16': { length: 2, max: 6, fixed: true },
+  '17': { length: 2, max: 6, fixed: true },
+  '20': { length: 2, max: 2, fixed: true },
+  '21': { length: 2, max: 20 },
+  '22': { length: 2, max: 20 },
+  '24': { length: 3, max: 30 },
+  '25': { length: 3, max: 30 },
+  '30': { length: 2, max: 8 },
+  '31': { length: 4, max: 6, fixed: true },
+  '32': { length: 4, max: 6, fixed: true },
+  '33': { length: 4, max: 6, fixed: true },
+  '34': { length: 4, max: 6, fixed: true },
+  '35': { length: 4, max: 6, fixed: true },
+  '36': { length: 4, max: 6, fixed: true },
+  '37': { length: 2, max: 8 },
+  '41': { length: 3, max: 13, fixed: true },
+  '91': { length: 2, max: 90 }, // 91–99 — внутренние AI (в т. ч. ключ и криптохвост маркировки «Честный знак»)
+  '92': { length: 2, max: 90 },
+  '93': { length: 2, max: 90 },
+  '94': { length: 2, max: 90 },
+  '95': { length: 2, max: 90 },
+  '96': { length: 2, max: 90 },
+  '97': { length: 2, max: 90 },
+  '98': { length: 2, max: 90 },
+  '99': { length: 2, max: 90 },
+};
+
+const GS = '\u001d';
+// Идентификатор символики, который сканер ставит перед данными: ]C1 — GS1-128, ]d2 — DataMatrix, ]Q3 — QR, ]e0 — DataBar
+const SYMBOLOGY = /^\](C1|d2|Q3|e0)/;
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+// Разбор сканов GS1 (Application Identifiers) и нормализация GTIN для поиска штрихкода.
+// Обычный EAN/UPC не является строкой GS1 и разбирается только как GTIN (см. gtinForms)
+export class Gs1 {
+  // Скан явно помечен как GS1: идентификатор символики, FNC1 (GS) или скобочная форма AI
+  static isMarked(raw: string): boolean {
+    return SYMBOLOGY.test(raw) || raw.includes(GS) || raw.startsWith('(');
+  }
+
+  // null — скан не строка GS1; битая строка GS1 — 400.
+  // Без пометки строкой GS1 считается только то, что начинается с 01 и GTIN-14: такие же бывают и обычные коды Code 128
+  static parse(raw: string): Gs1Data | null {
+    const symbology = SYMBOLOGY.test(raw);
+    const value = raw.replace(SYMBOLOGY, '').replace(/^\u001d/, '');
+    let fields: Map<string, string>;
+    if (value.startsWith('(')) {
+      fields = Gs1.parseBracketed(raw, value);
+    } else if (symbology || raw.includes(GS) || /^01\d{14}/.test(value)) {
+      fields = Gs1.parseRaw(raw, value);
+    } else {
+      return null;
+    }
+
+    const gtin = fields.get('01');
+    if (!gtin) throw new BadRequestError(`Invalid GS1 barcode ${raw}: GTIN (01) is required`);
+    if (!/^\d{14}$/.test(gtin) || !Gs1.isValidGtin(gtin)) {
+      throw new BadRequestError(`Invalid GS1 barcode ${raw}: wrong GTIN ${gtin}`);
+    }
+
+    const data: Gs1Data = { gtin };
+    if (fields.has('10')) data.batch = fields.get('10');
+    if (fields.has('21')) data.serial = fields.get('21');
+    if (fields.has('17')) data.expiryDate = Gs1.date(raw, fields.get('17')!);
+    const weightAi = [...fields.keys()].find((ai) => /^310\d$/.test(ai));
+    if (weightAi) {
+      const digits = fields.get(weightAi)!;
+      if (!/^\d{6}$/.test(digits)) throw new BadRequestError(`Invalid GS1 barcode ${raw}: wrong weight ${digits}`);
+      data.weight = new Prisma.Decimal(digits).div(new Prisma.Decimal(10).pow(Number(weightAi[3]))).toString();
+    }
+    return data;
+  }
+
+  // Строка пересчёта со сканом GS1: gtin — ключ поиска строки вместо штрихкода (сам скан остаётся в barcode),
+  // AI 10/17/21 заполняют не переданные партию, срок годности и серийный номер, вес (310n) — не переданное количество.
+  // exactMatch — скан как есть уже нашёлся среди штрихкодов: непомеченный скан тогда обычный штрихкод.
+  // Непомеченный скан, который не разобрался как GS1, тоже остаётся обычным штрихкодом; помеченный битый — 400.
+  // weighed — количество взято из веса: оно в базовой единице, упаковка штрихкода к нему не применяется
+  static unpack<T extends ScanLine>(line: T, exactMatch: boolean): T & { gtin?: string; weighed: boolean } {
+    const marked = line.barcode !== undefined && Gs1.isMarked(line.barcode);
+    let data: Gs1Data | null = null;
+    if (line.barcode && (marked || !exactMatch)) {
+      try {
+        data = Gs1.parse(line.barcode);
+      } catch (error) {
+        if (marked) throw error;
+      }
+    }
+    if (!data) return { ...line, weighed: false };
+    const weighed = line.countedQty === undefined && data.weight !== undefined;
+    return {
+      ...line,
+      gtin: data.gtin,
+      batch: line.batch ?? data.batch,
+      expiryDate: line.expiryDate ?? data.expiryDate,
+      serial: line.serial ?? data.serial,
+      countedQty: weighed ? data.weight : line.countedQty,
+      weighed,
+    };
+  }
+
+  // Формы одного GTIN для поиска: как прислано, GTIN-14, EAN-13, UPC-A и EAN-8 (если позволяют ведущие нули).
+  // Не GTIN — только сам код
+  static gtinForms(code: string): string[] {
+    if (!/^\d+$/.test(code) || !GTIN_LENGTHS.includes(code.length)) return [code];
+    const gtin14 = code.padStart(14, '0');
+    const forms = [code];
+    for (const length of [14, ...GTIN_LENGTHS.filter((l) => l !== 14).reverse()]) {
+      const form = gtin14.slice(14 - length);
+      if (/^0*$/.test(gtin14.slice(0, 14 - length)) && !forms.includes(form)) forms.push(form);
+    }
+    return forms;
+  }
+
+  static isValidGtin(gtin: string): boolean {
+    const digits = [...gtin].map(Number);
+    const check = digits.pop()!;
+    const sum = digits.reverse().reduce((s, d, i) => s + d * (i % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10 === check;
+  }
+
+  // (01)04601234567893(17)251231(10)L2405
+  private static parseBracketed(raw: string, value: string): Map<string, string> {
+    const fields = new Map<string, string>();
+    const re = /\((\d{2,4})\)([^(]*)/gy;
+    let match: RegExpExecArray | null;
+    let pos = 0;
+    while ((match = re.exec(value)) !== null) {
+      fields.set(match[1], match[2]);
+      pos = re.lastIndex;
+    }
+    if (pos !== value.length) throw new BadRequestError(`Invalid GS1 barcode ${raw}`);
+    return fields;
+  }
+
+  // 010460123456789317251231 10L2405<GS>21…: поле переменной длины заканчивается FNC1 (GS) или концом строки
+  private static parseRaw(raw: string, value: string): Map<string, string> {
+    const fields = new Map<string, string>();
+    let pos = 0;
+    while (pos < value.length) {
+      const format = AI_FORMATS[value.slice(pos, pos + 2)];
+      if (!format) throw new BadRequestError(`Invalid GS1 barcode ${raw}: unknown AI at position ${pos + 1}`);
+      const ai = value.slice(pos, pos + format.length);
+      pos += format.length;
+      let end: number;
+      if (format.fixed) {
+        end = pos + format.max;
+        if (end > value.length) throw new BadRequestError(`Invalid GS1 barcode ${raw}: AI ${ai} is too short`);
+      } else {
+        const gs = value.indexOf(GS, pos);
+        end = gs === -1 ? value.length : gs;
+        if (end - pos > format.max) throw new BadRequestError(`Invalid GS1 barcode ${raw}: AI ${ai} is too long`);
+      }
+      fields.set(ai, value.slice(pos, end));
+      pos = value[end] === GS ? end + 1 : end;
+    }
+    return fields;
+  }
+
+  // YYMMDD; DD = 00 — последний день месяца. Век по скользящему окну GS1: от −49 до +50 лет от текущего
+  private static date(raw: string, value: string): string {
+    const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+    const month = match ? Number(match[2]) : 0;
+    if (!match || month < 1 || month > 12) throw new BadRequestError(`Invalid GS1 barcode ${raw}: wrong date ${value}`);
+    const currentYear = new Date().getUTCFullYear();
+    let year = Math.floor(currentYear / 100) * 100 + Number(match[1]);
+    if (year - currentYear > 50) year -= 100;
+    else if (year - currentYear < -49) year += 100;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const day = Number(match[3]) === 0 ? lastDay : Number(match[3]);
+    if (day > lastDay) throw new BadRequestError(`Invalid GS1 barcode ${raw}: wrong date ${value}`);
+    return `${year}-${match[2]}-${String(day).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,315 @@
+import { createInterface } from 'node:readline';
+import { Readable } from 'node:stream';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { ImportHeader, ImportPayload, InventoryService } from './inventory.service.js';
+import { DocumentEvents } from './document.events.js';
+import { BatchService, ItemTracking } from './batch.service.js';
+import { importItemErrors } from '../schemas/onec.js';
+import { BadRequestError, NotFoundError, UnprocessableEntityError } from '../errors.js';
+
+type ImportItem = ImportPayload['items'][number];
+
+export interface AppendResult {
+  sessionId: string;
+  received: number;
+  receivedCount: number;
+  itemCount: number;
+  chunkCount: number;
+}
+
+// Строк в одной записи в промежуточные таблицы
+const STAGE_BATCH_SIZE = 500;
+
+export class ImportSessionService {
+  // Строка NDJSON: тело читается потоком, поэтому схема importItem проверяется здесь, а не в маршруте.
+  // Согласованность партий и серийных номеров схемой не выражается — её проверяет BatchService
+  static validateItem(value: unknown): string | null {
+    const errors = importItemErrors(value);
+    if (errors.length > 0) return errors.join('; ');
+    const item = value as ImportItem;
+    const error = BatchService.validate(item);
+    return error && `${error} for item ${item.sku}`;
+  }
+
+  static async begin(header: ImportHeader, createdBy: string) {
+    return await prisma.importSession.create({
+      data: {
+        externalId: header.externalId,
+        onecNumber: header.onecNumber,
+        onecDate: new Date(header.onecDate),
+        warehouseCode: header.warehouse.code,
+        warehouseName: header.warehouse.name,
+        createdBy,
+      },
+    });
+  }
+
+  // Готовый документ целиком в сессию: фоновый импорт хранит в задаче ссылку на сессию, а не тело документа
+  static async stagePayload(payload: ImportPayload, createdBy: string) {
+    const { items, ...header } = payload;
+    const session = await ImportSessionService.begin(header, createdBy);
+    await ImportSessionService.appendItems(session.id, items);
+    return session;
+  }
+
+  static async get(id: string) {
+    const session = await prisma.importSession.findUnique({ where: { id } });
+    if (!session) throw new NotFoundError('Import session not found');
+    return session;
+  }
+
+  // Порция строк JSON-массивом
+  static async appendItems(id: string, items: unknown[]): Promise<AppendResult> {
+    await ImportSessionService.assertOpen(id);
+    for (let i = 0; i < items.length; i++) {
+      const error = ImportSessionService.validateItem(items[i]);
+      if (error) throw new BadRequestError(`Item #${i + 1}: ${error}`);
+    }
+    for (let i = 0; i < items.length; i += STAGE_BATCH_SIZE) {
+      await ImportSessionService.stageBatch(id, items.slice(i, i + STAGE_BATCH_SIZE) as ImportItem[]);
+    }
+    return await ImportSessionService.finishChunk(id, items.length);
+  }
+
+  // Порция строк NDJSON (по строке JSON на позицию), тело читается потоком, в память целиком не попадает.
+  // При ошибке в строке уже записанные пакеты остаются в сессии: повторная отправка тех же SKU их перезапишет.
+  static async appendStream(id: string, stream: Readable): Promise<AppendResult> {
+    await ImportSessionService.assertOpen(id);
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+    let batch: ImportItem[] = [];
+    let lineNo = 0;
+    let received = 0;
+    try {
+      for await (const line of lines) {
+        lineNo++;
+        if (!line.trim()) continue;
+        let item: unknown;
+        try {
+          item = JSON.parse(line);
+        } catch {
+          throw new BadRequestError(`Line ${lineNo}: invalid JSON`);
+        }
+        const error = ImportSessionService.validateItem(item);
+        if (error) throw new BadRequestError(`Line ${lineNo}: ${error}`);
+
+        batch.push(item as ImportItem);
+        received++;
+        if (batch.length >= STAGE_BATCH_SIZE) {
+          await ImportSessionService.stageBatch(id, batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) await ImportSessionService.stageBatch(id, batch);
+    } finally {
+      lines.close();
+    }
+    return await ImportSessionService.finishChunk(id, received);
+  }
+
+  // Применение сессии к документу: всё одной транзакцией набором INSERT ... SELECT из промежуточных
+  // таблиц, поэтому до коммита документ (или его новые строки) не виден, а при ошибке не меняется вовсе.
+  //
+  // resume — фоновая задача подхватывает commit, прерванный рестартом сервера (сессия осталась в COMMITTING,
+  // транзакция при этом откатилась)
+  static async commit(id: string, onProgress?: (percent: number) => void, resume = false) {
+    const claimed = await prisma.importSession.updateMany({
+      where: { id, status: { in: resume ? ['OPEN', 'COMMITTING'] : ['OPEN'] } },
+      data: { status: 'COMMITTING', stage: 'document', error: null },
+    });
+    if (claimed.count === 0) {
+      const session = await ImportSessionService.get(id);
+      throw new UnprocessableEntityError(`Import session is ${session.status}`);
+    }
+    const session = await ImportSessionService.get(id);
+    const stages = ['document', 'products', 'items', 'barcodes', 'batches'];
+    const stage = (name: string) => {
+      onProgress?.((stages.indexOf(name) / stages.length) * 100);
+      return prisma.importSession.update({ where: { id }, data: { stage: name } }).catch(() => undefined);
+    };
+
+    const startTime = Date.now();
+    const importTimeout = parseInt(process.env.IMPORT_TX_TIMEOUT_MS || '120000');
+    let document;
+    try {
+      document = await prisma.$transaction(async (tx) => {
+        const doc = await InventoryService.upsertImportedDocument(tx, {
+          externalId: session.externalId,
+          onecNumber: session.onecNumber,
+          onecDate: session.onecDate.toISOString(),
+          warehouse: { code: session.warehouseCode, name: session.warehouseName },
+        });
+
+        // Каталог: недостающие товары и свободные штрихкоды заводим по данным документа
+        await stage('products');
+        await tx.$executeRaw`
+          INSERT INTO Product (id, sku, name, unit, isActive, createdAt, updatedAt)
+          SELECT s.id, s.sku, s.name, s.unit, true, NOW(3), NOW(3)
+          FROM ImportSessionItem s WHERE s.sessionId = ${id}
+          ON DUPLICATE KEY UPDATE sku = Product.sku`;
+        await tx.$executeRaw`
+          INSERT INTO ProductBarcode (id, productId, barcode, isPrimary)
+          SELECT b.id, p.id, b.barcode, false
+          FROM ImportSessionBarcode b JOIN Product p ON p.sku = b.sku
+          WHERE b.sessionId = ${id}
+          ON DUPLICATE KEY UPDATE barcode = ProductBarcode.barcode`;
+
+        // Строки: новые создаются, существующие (documentId, sku) обновляются.
+        // Места хранения должны быть заведены на складе заранее
+        await stage('items');
+        const unknownLocations = await tx.$queryRaw<Array<{ code: string }>>`
+          SELECT DISTINCT s.locationCode AS code
+          FROM ImportSessionItem s
+          LEFT JOIN StorageLocation l ON l.warehouseId = ${doc.warehouseId} AND l.code = s.locationCode
+          WHERE s.sessionId = ${id} AND s.locationCode IS NOT NULL AND l.id IS NULL
+          LIMIT 20`;
+        if (unknownLocations.length > 0) {
+          throw new UnprocessableEntityError(`Unknown storage locations: ${unknownLocations.map((l) => l.code).join(', ')}`);
+        }
+        await tx.$executeRaw`
+          INSERT INTO InventoryItem (id, documentId, sku, name, unit, qtyFrom1C, source, productId, locationId, createdAt, updatedAt)
+          SELECT s.id, ${doc.id}, s.sku, s.name, s.unit, s.qtyFrom1C, 'ONEC', p.id, l.id, NOW(3), NOW(3)
+          FROM ImportSessionItem s
+          LEFT JOIN Product p ON p.sku = s.sku
+          LEFT JOIN StorageLocation l ON l.warehouseId = ${doc.warehouseId} AND l.code = s.locationCode
+          WHERE s.sessionId = ${id}
+          ON DUPLICATE KEY UPDATE name = VALUES(name), unit = VALUES(unit), qtyFrom1C = VALUES(qtyFrom1C),
+            productId = VALUES(productId), locationId = VALUES(locationId), updatedAt = VALUES(updatedAt)`;
+
+        // Штрихкоды строк, для которых они переданы: исчезнувшие и перешедшие к другой строке удаляем, новые добавляем
+        await stage('barcodes');
+        await tx.$executeRaw`
+          DELETE ib FROM InventoryItemBarcode ib
+          JOIN InventoryItem i ON i.id = ib.itemId
+          JOIN ImportSessionItem s ON s.sessionId = ${id} AND s.sku = i.sku AND s.hasBarcodes = true
+          WHERE ib.documentId = ${doc.id}
+            AND NOT EXISTS (
+              SELECT 1 FROM ImportSessionBarcode b
+              WHERE b.sessionId = ${id} AND b.sku = i.sku AND b.barcode = ib.barcode
+            )`;
+        await tx.$executeRaw`
+          DELETE ib FROM InventoryItemBarcode ib
+          JOIN InventoryItem i ON i.id = ib.itemId
+          JOIN ImportSessionBarcode b ON b.sessionId = ${id} AND b.barcode = ib.barcode AND b.sku <> i.sku
+          WHERE ib.documentId = ${doc.id}`;
+        await tx.$executeRaw`
+          INSERT INTO InventoryItemBarcode (id, documentId, itemId, barcode, isPrimary)
+          SELECT b.id, ${doc.id}, i.id, b.barcode, b.position = 0
+          FROM ImportSessionBarcode b JOIN InventoryItem i ON i.documentId = ${doc.id} AND i.sku = b.sku
+          WHERE b.sessionId = ${id}
+          ON DUPLICATE KEY UPDATE barcode = InventoryItemBarcode.barcode`;
+
+        // Партии и серийные номера — только у строк, для которых они переданы
+        await stage('batches');
+        const tracked = await tx.importSessionItem.findMany({
+          where: { sessionId: id, tracking: { not: Prisma.DbNull } },
+          select: { sku: true, tracking: true },
+        });
+        if (tracked.length > 0) {
+          const items = await tx.inventoryItem.findMany({
+            where: { documentId: doc.id, sku: { in: tracked.map((t) => t.sku) } },
+            select: { id: true, sku: true },
+          });
+          const itemIds = new Map(items.map((i) => [i.sku, i.id]));
+          for (const t of tracked) {
+            await BatchService.applyImport(tx, doc.id, itemIds.get(t.sku)!, t.tracking as ItemTracking);
+          }
+        }
+
+        await tx.importSession.update({
+          where: { id },
+          data: { status: 'COMMITTED', stage: null, documentId: doc.id, committedAt: new Date() },
+        });
+        return doc;
+      }, { maxWait: 15000, timeout: importTimeout });
+    } catch (error) {
+      // Транзакция откатилась целиком — сессию можно исправить и закоммитить повторно
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.importSession.update({
+        where: { id },
+        data: { status: 'OPEN', stage: null, error: message.slice(0, 65535) },
+      });
+      throw error;
+    }
+
+    // Промежуточные данные больше не нужны
+    await prisma.importSessionBarcode.deleteMany({ where: { sessionId: id } });
+    await prisma.importSessionItem.deleteMany({ where: { sessionId: id } });
+
+    const itemCount = await prisma.inventoryItem.count({ where: { documentId: document.id } });
+    console.log(`Import session ${id} (${session.externalId}) committed in ${Date.now() - startTime} ms`);
+    DocumentEvents.publish({ type: 'document.imported', documentId: document.id, version: document.version, itemCount });
+    return {
+      sessionId: id,
+      status: 'COMMITTED',
+      documentId: document.id,
+      externalId: session.externalId,
+      version: document.version,
+      itemCount,
+    };
+  }
+
+  static async abort(id: string) {
+    const aborted = await prisma.importSession.updateMany({ where: { id, status: 'OPEN' }, data: { status: 'ABORTED' } });
+    if (aborted.count === 0) {
+      const session = await ImportSessionService.get(id);
+      throw new UnprocessableEntityError(`Import session is ${session.status}`);
+    }
+    await prisma.importSessionBarcode.deleteMany({ where: { sessionId: id } });
+    await prisma.importSessionItem.deleteMany({ where: { sessionId: id } });
+    return { success: true };
+  }
+
+  private static async assertOpen(id: string) {
+    const session = await ImportSessionService.get(id);
+    if (session.status !== 'OPEN') {
+      throw new UnprocessableEntityError(`Import session is ${session.status}`);
+    }
+  }
+
+  // Пакет строк в промежуточные таблицы; повторный SKU заменяет ранее присланный
+  private static async stageBatch(sessionId: string, items: ImportItem[]) {
+    const bySku = new Map(items.map((item) => [item.sku, item]));
+    const skus = [...bySku.keys()];
+    await prisma.$transaction(async (tx) => {
+      await tx.importSessionBarcode.deleteMany({ where: { sessionId, sku: { in: skus } } });
+      await tx.importSessionItem.deleteMany({ where: { sessionId, sku: { in: skus } } });
+      await tx.importSessionItem.createMany({
+        data: [...bySku.values()].map((item) => ({
+          sessionId,
+          sku: item.sku,
+          name: item.name,
+          unit: item.unit,
+          qtyFrom1C: new Prisma.Decimal(item.qtyFrom1C),
+          hasBarcodes: item.barcodes !== undefined,
+          locationCode: item.location ?? null,
+          tracking: item.batches !== undefined || item.serials !== undefined
+            ? { batches: item.batches, serials: item.serials } as Prisma.InputJsonObject
+            : Prisma.DbNull,
+        })),
+      });
+      const barcodes = [...bySku.values()].flatMap((item) =>
+        (item.barcodes ?? []).map((barcode, position) => ({ sessionId, sku: item.sku, barcode, position })),
+      );
+      if (barcodes.length > 0) {
+        await tx.importSessionBarcode.createMany({ data: barcodes, skipDuplicates: true });
+      }
+    }, { maxWait: 5000, timeout: 30000 });
+  }
+
+  private static async finishChunk(id: string, received: number): Promise<AppendResult> {
+    const itemCount = await prisma.importSessionItem.count({ where: { sessionId: id } });
+    const session = await prisma.importSession.update({
+      where: { id },
+      data: { itemCount, receivedCount: { increment: received }, chunkCount: { increment: 1 } },
+    });
+    return {
+      sessionId: id,
+      received,
+      receivedCount: session.receivedCount,
+      itemCount: session.itemCount,
+      chunkCount: session.chunkCount,
+    };
+  }
+}
@@ -0,0 +1,388 @@
+import { CountDecisionType, Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { DocumentLifecycle } from './document.lifecycle.js';
+import { NotFoundError } from '../errors.js';
+import { DocumentResolver } from './document.resolver.js';
+
+export type DeviceDecision = 'ACCEPTED' | CountDecisionType;
+
+// Счёт в одном месте хранения; locationId = null — пересчёт без места
+export interface LocationCount {
+  locationId: string | null;
+  locationCode: string | null;
+  countedQty: Prisma.Decimal | null;
+  correctedQty: Prisma.Decimal | null;
+}
+
+// Счёт по партии строки; batchId = null — пересчёт без партии
+export interface BatchCount {
+  batchId: string | null;
+  countedQty: Prisma.Decimal | null;
+  correctedQty: Prisma.Decimal | null;
+}
+
+// Итог по партии: ожидание 1С, учтённый счёт и отсканированные серийные номера партии
+export interface BatchTotal extends BatchCount {
+  batch: string | null;
+  expiryDate: Date | null;
+  qtyFrom1C: Prisma.Decimal; // для части без партии — остаток qtyFrom1C строки за вычетом партий
+  serials: string[];
+}
+
+export interface DeviceCount {
+  deviceId: string;
+  countedQty: Prisma.Decimal | null; // сумма по местам
+  correctedQty: Prisma.Decimal | null;
+  updatedAt: Date;
+  decision: DeviceDecision;
+  locations: LocationCount[];
+  batches: BatchCount[];
+}
+
+export interface ReconciledItem {
+  itemId: string;
+  sku: string;
+  name: string;
+  unit: string;
+  qtyFrom1C: Prisma.Decimal;
+  devices: DeviceCount[];
+  locations: LocationCount[]; // разбивка итога по местам (учтённые устройства); пусто, если мест не было
+  batches: BatchTotal[]; // разбивка итога по партиям; пусто, если у строки нет партий и серийных номеров
+  recountQty: Prisma.Decimal | null; // результат последнего перепересчёта, заменяет сумму по устройствам и более ранние корректировки
+  countedTotal: Prisma.Decimal;
+  correctedTotal: Prisma.Decimal | null; // null и после перепересчёта, если корректировок позже него не было
+  finalQty: Prisma.Decimal; // correctedTotal ?? countedTotal
+  discrepancy: Prisma.Decimal; // finalQty - qtyFrom1C
+}
+
+export interface DecisionPayload {
+  sku: string;
+  deviceId: string;
+  decision: DeviceDecision;
+  reason?: string;
+}
+
+function addQty(sum: Prisma.Decimal | null, value: Prisma.Decimal | null): Prisma.Decimal | null {
+  if (value === null) return sum;
+  return (sum ?? new Prisma.Decimal(0)).add(value);
+}
+
+// Сумма счётов с одинаковым ключом (место, партия)
+function sumBy<T extends { countedQty: Prisma.Decimal | null; correctedQty: Prisma.Decimal | null }, K>(
+  counts: T[],
+  keyOf: (c: T) => K,
+): Map<K, T> {
+  const totals = new Map<K, T>();
+  for (const c of counts) {
+    const total = totals.get(keyOf(c));
+    totals.set(keyOf(c), {
+      ...c,
+      countedQty: addQty(total?.countedQty ?? null, c.countedQty),
+      correctedQty: addQty(total?.correctedQty ?? null, c.correctedQty),
+    });
+  }
+  return totals;
+}
+
+function groupByItem<T extends { itemId: string }>(rows: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) groups.set(row.itemId, [...(groups.get(row.itemId) ?? []), row]);
+  return groups;
+}
+
+type CountEntry = LocationCount & { batchId: string | null };
+
+export class InventoryReconciliationService {
+  // Накопленный счёт устройства по строке в месте хранения и партии: последнее непустое значение журнала.
+  // С ним сравнивают новые операции ТСД (add прибавляет к нему, set заменяет)
+  static async latestDeviceValue(
+    tx: Prisma.TransactionClient,
+    itemId: string,
+    deviceId: string,
+    locationId: string | null,
+    batchId: string | null,
+    field: 'countedQty' | 'correctedQty',
+  ): Promise<Prisma.Decimal> {
+    const last = await tx.inventoryItemChange.findFirst({
+      where: { itemId, deviceId, locationId, batchId, kind: 'COUNT', [field]: { not: null } },
+      orderBy: { seq: 'desc' },
+      select: { countedQty: true, correctedQty: true },
+    });
+    return last?.[field] ?? new Prisma.Decimal(0);
+  }
+
+  // Итоги по строкам документа из журнала InventoryItemChange.
+  //
+  // По каждому устройству, месту хранения и партии берётся последнее непустое countedQty и correctedQty,
+  // счёт устройства — сумма по его местам и партиям, итог строки — сумма по устройствам с учётом решений супервизора: REJECTED не учитывается, при наличии
+  // AUTHORITATIVE итог равен счёту этого устройства. Результат перепересчёта (kind = RECOUNT, записи одного
+  // задания — его разбивка по местам) заменяет countedTotal и разбивку итога по местам.
+  // Строки без записей в журнале берут значения из самой строки.
+  // Этот же расчёт используют revise и exportFor1C.
+  static async reconcile(db: Prisma.TransactionClient, documentId: string): Promise<ReconciledItem[]> {
+    const [items, changes, decisions, batches, serials] = await Promise.all([
+      db.inventoryItem.findMany({ where: { documentId }, orderBy: { sku: 'asc' } }),
+      db.inventoryItemChange.findMany({
+        where: { documentId },
+        select: {
+          seq: true, itemId: true, deviceId: true, countedQty: true, correctedQty: true, createdAt: true, kind: true, batchId: true,
+          recountTaskId: true,
+          location: { select: { id: true, code: true } },
+        },
+        orderBy: { seq: 'asc' },
+      }),
+      db.inventoryCountDecision.findMany({ where: { documentId } }),
+      db.inventoryItemBatch.findMany({ where: { documentId }, orderBy: { batchKey: 'asc' } }),
+      db.inventoryItemSerial.findMany({
+        where: { documentId },
+        select: { itemId: true, batchId: true, serial: true, countedBy: true },
+        orderBy: { serial: 'asc' },
+      }),
+    ]);
+
+    // itemId -> deviceId -> место и партия -> последние значения (журнал отсортирован по seq, поздние перезаписывают ранние)
+    const byItem = new Map<string, Map<string, { updatedAt: Date; entries: Map<string, CountEntry> }>>();
+    const recountByItem = new Map<string, { taskId: string | null; qty: Prisma.Decimal; seq: number; locations: LocationCount[] }>();
+    const lastCorrectionSeq = new Map<string, number>();
+    for (const ch of changes) {
+      if (ch.kind === 'RECOUNT') {
+        if (!ch.countedQty) continue;
+        // Более позднее задание заменяет прежний результат целиком, записи того же задания складываются по местам
+        const prev = recountByItem.get(ch.itemId);
+        const recount = prev && prev.taskId === ch.recountTaskId
+          ? prev
+          : { taskId: ch.recountTaskId, qty: new Prisma.Decimal(0), seq: ch.seq, locations: [] };
+        recount.qty = recount.qty.add(ch.countedQty);
+        recount.seq = ch.seq;
+        recount.locations.push({
+          locationId: ch.location?.id ?? null,
+          locationCode: ch.location?.code ?? null,
+          countedQty: ch.countedQty,
+          correctedQty: null,
+        });
+        recountByItem.set(ch.itemId, recount);
+        continue;
+      }
+      if (ch.correctedQty) lastCorrectionSeq.set(ch.itemId, ch.seq);
+      if (!byItem.has(ch.itemId)) byItem.set(ch.itemId, new Map());
+      const devMap = byItem.get(ch.itemId)!;
+      if (!devMap.has(ch.deviceId)) devMap.set(ch.deviceId, { updatedAt: ch.createdAt, entries: new Map() });
+      const device = devMap.get(ch.deviceId)!;
+      const locationId = ch.location?.id ?? null;
+      const key = `${locationId}:${ch.batchId}`;
+      const prev = device.entries.get(key);
+      device.updatedAt = ch.createdAt;
+      device.entries.set(key, {
+        locationId,
+        locationCode: ch.location?.code ?? null,
+        batchId: ch.batchId,
+        countedQty: ch.countedQty ?? prev?.countedQty ?? null,
+        correctedQty: ch.correctedQty ?? prev?.correctedQty ?? null,
+      });
+    }
+
+    const decisionByKey = new Map(decisions.map((d) => [`${d.itemId}:${d.deviceId}`, d.decision]));
+    const batchesByItem = groupByItem(batches);
+    const serialsByItem = groupByItem(serials.filter((s) => s.countedBy !== null));
+    const trackedItems = new Set(serials.map((s) => s.itemId));
+
+    return items.map((item) => {
+      const devices: DeviceCount[] = [...(byItem.get(item.id)?.entries() ?? [])].map(([deviceId, d]) => {
+        const entries = [...d.entries.values()];
+        return {
+          deviceId,
+          countedQty: entries.reduce((sum, l) => addQty(sum, l.countedQty), null as Prisma.Decimal | null),
+          correctedQty: entries.reduce((sum, l) => addQty(sum, l.correctedQty), null as Prisma.Decimal | null),
+          updatedAt: d.updatedAt,
+          decision: decisionByKey.get(`${item.id}:${deviceId}`) ?? 'ACCEPTED',
+          locations: [...sumBy(entries, (e) => e.locationId).values()].map(({ batchId: _, ...l }) => l),
+          batches: [...sumBy(entries, (e) => e.batchId).values()].map(({ batchId, countedQty, correctedQty }) => ({
+            batchId, countedQty, correctedQty,
+          })),
+        };
+      });
+
+      let countedTotal: Prisma.Decimal;
+      let correctedTotal: Prisma.Decimal | null;
+      let byLocation = new Map<string | null, LocationCount>();
+      let byBatch = new Map<string | null, BatchCount>();
+      if (devices.length === 0) {
+        countedTotal = item.countedQty ?? new Prisma.Decimal(0);
+        correctedTotal = item.correctedQty;
+      } else {
+        const authoritative = devices.find((d) => d.decision === 'AUTHORITATIVE');
+        const included = authoritative ? [authoritative] : devices.filter((d) => d.decision !== 'REJECTED');
+        countedTotal = new Prisma.Decimal(0);
+        correctedTotal = null;
+        for (const d of included) {
+          if (d.countedQty) countedTotal = countedTotal.add(d.countedQty);
+          if (d.correctedQty) correctedTotal = (correctedTotal ?? new Prisma.Decimal(0)).add(d.correctedQty);
+        }
+        byLocation = sumBy(included.flatMap((d) => d.locations), (l) => l.locationId);
+        byBatch = sumBy(included.flatMap((d) => d.batches), (b) => b.batchId);
+      }
+
+      // Перепересчёт по заданию супервизора — более новый итог строки, чем корректировки до него.
+      // Корректировка, сделанная уже после перепересчёта, снова определяет итог
+      const recount = recountByItem.get(item.id);
+      const recountQty = recount?.qty ?? null;
+      if (recount) {
+        countedTotal = recount.qty;
+        if ((lastCorrectionSeq.get(item.id) ?? 0) < recount.seq) correctedTotal = null;
+        byLocation = sumBy(recount.locations, (l) => l.locationId);
+      }
+      // Разбивка нужна, только если хоть что-то посчитано в местах хранения
+      const locations = [...byLocation.values()].some((l) => l.locationId !== null)
+        ? [...byLocation.values()].sort((a, b) => ((a.locationCode ?? '') < (b.locationCode ?? '') ? -1 : 1))
+        : [];
+
+      const batches = InventoryReconciliationService.batchTotals(
+        item, batchesByItem.get(item.id) ?? [], byBatch, serialsByItem.get(item.id) ?? [], trackedItems.has(item.id),
+      );
+
+      const finalQty = correctedTotal ?? countedTotal;
+      return {
+        itemId: item.id,
+        sku: item.sku,
+        name: item.name,
+        unit: item.unit,
+        qtyFrom1C: item.qtyFrom1C,
+        devices,
+        locations,
+        batches,
+        recountQty,
+        countedTotal,
+        correctedTotal,
+        finalQty,
+        discrepancy: finalQty.sub(item.qtyFrom1C),
+      };
+    });
+  }
+
+  // Разбивка по партиям: партии 1С и найденные при пересчёте, а также часть без партии, если по ней
+  // что-то ожидалось или посчитано. Нужна, только если у строки есть партии или серийные номера
+  private static batchTotals(
+    item: { qtyFrom1C: Prisma.Decimal },
+    batches: Array<{ id: string; batch: string | null; expiryDate: Date | null; qtyFrom1C: Prisma.Decimal }>,
+    counts: Map<string | null, BatchCount>,
+    serials: Array<{ batchId: string | null; serial: string }>,
+    hasSerials: boolean,
+  ): BatchTotal[] {
+    if (batches.length === 0 && !hasSerials) return [];
+    const serialsOf = (batchId: string | null) => serials.filter((s) => s.batchId === batchId).map((s) => s.serial);
+
+    const totals: BatchTotal[] = batches.map((b) => ({
+      batchId: b.id,
+      batch: b.batch,
+      expiryDate: b.expiryDate,
+      qtyFrom1C: b.qtyFrom1C,
+      countedQty: counts.get(b.id)?.countedQty ?? null,
+      correctedQty: counts.get(b.id)?.correctedQty ?? null,
+      serials: serialsOf(b.id),
+    }));
+    const unbatched: BatchTotal = {
+      batchId: null,
+      batch: null,
+      expiryDate: null,
+      qtyFrom1C: batches.reduce((rest, b) => rest.sub(b.qtyFrom1C), item.qtyFrom1C),
+      countedQty: counts.get(null)?.countedQty ?? null,
+      correctedQty: counts.get(null)?.correctedQty ?? null,
+      serials: serialsOf(null),
+    };
+    if (!unbatched.qtyFrom1C.isZero() || unbatched.countedQty || unbatched.correctedQty || unbatched.serials.length > 0) {
+      totals.push(unbatched);
+    }
+    return totals;
+  }
+
+  static async getReconciliation(id: string) {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
+
+    const items = await InventoryReconciliationService.reconcile(prisma, resolvedId);
+    const dec = (v: Prisma.Decimal | null) => (v == null ? null : v.toString());
+    const location = (l: LocationCount) => ({
+      location: l.locationCode,
+      countedQty: dec(l.countedQty),
+      correctedQty: dec(l.correctedQty),
+    });
+    return {
+      documentId: resolvedId,
+      items: items.map((it) => ({
+        sku: it.sku,
+        name: it.name,
+        unit: it.unit,
+        qtyFrom1C: it.qtyFrom1C.toString(),
+        devices: it.devices.map((d) => ({
+          deviceId: d.deviceId,
+          countedQty: dec(d.countedQty),
+          correctedQty: dec(d.correctedQty),
+          updatedAt: d.updatedAt.toISOString(),
+          decision: d.decision,
+          locations: d.locations.some((l) => l.locationId !== null) ? d.locations.map(location) : [],
+        })),
+        locations: it.locations.map(location),
+        batches: it.batches.map((b) => ({
+          batch: b.batch,
+          expiryDate: b.expiryDate && b.expiryDate.toISOString().slice(0, 10),
+          qtyFrom1C: b.qtyFrom1C.toString(),
+          countedQty: dec(b.countedQty),
+          correctedQty: dec(b.correctedQty),
+          serials: b.serials,
+        })),
+        recountQty: dec(it.recountQty),
+        countedTotal: it.countedTotal.toString(),
+        correctedTotal: dec(it.correctedTotal),
+        finalQty: it.finalQty.toString(),
+        discrepancy: it.discrepancy.toString(),
+      })),
+    };
+  }
+
+  // ACCEPTED снимает решение; AUTHORITATIVE у строки может быть только у одного устройства
+  static async setDecision(id: string, payload: DecisionPayload, decidedBy: string) {
+    return await prisma.$transaction(async (tx) => {
+      const resolvedId = await DocumentResolver.resolve(tx, id);
+
+      const document = await tx.inventoryDocument.findUnique({ where: { id: resolvedId } });
+      if (!document) throw new NotFoundError('Document not found');
+      DocumentLifecycle.assertEditable(document);
+
+      const item = await tx.inventoryItem.findUnique({
+        where: { documentId_sku: { documentId: document.id, sku: payload.sku } },
+      });
+      if (!item) throw new NotFoundError(`Item with SKU ${payload.sku} not found`);
+
+      const contribution = await tx.inventoryItemChange.findFirst({
+        where: { itemId: item.id, deviceId: payload.deviceId, kind: 'COUNT' },
+        select: { id: true },
+      });
+      if (!contribution) {
+        throw new NotFoundError(`Device ${payload.deviceId} has no counts for SKU ${payload.sku}`);
+      }
+
+      if (payload.decision === 'ACCEPTED') {
+        await tx.inventoryCountDecision.deleteMany({ where: { itemId: item.id, deviceId: payload.deviceId } });
+      } else {
+        if (payload.decision === 'AUTHORITATIVE') {
+          await tx.inventoryCountDecision.deleteMany({
+            where: { itemId: item.id, decision: 'AUTHORITATIVE', deviceId: { not: payload.deviceId } },
+          });
+        }
+        await tx.inventoryCountDecision.upsert({
+          where: { itemId_deviceId: { itemId: item.id, deviceId: payload.deviceId } },
+          create: {
+            documentId: document.id,
+            itemId: item.id,
+            deviceId: payload.deviceId,
+            decision: payload.decision,
+            reason: payload.reason,
+            decidedBy,
+          },
+          update: { decision: payload.decision, reason: payload.reason, decidedBy },
+        });
+      }
+
+      return { success: true, sku: item.sku, deviceId: payload.deviceId, decision: payload.decision };
+    }, { maxWait: 5000, timeout: 10000 });
+  }
+}
@@ -1,5 +1,24 @@
-import { Prisma } from '@prisma/client';
+import { AssignmentPolicy, Prisma } from '@prisma/client';
 import { prisma } from '../prisma.js';
+import { DocumentLifecycle, EDITABLE_STATUSES, EXPORTABLE_STATUSES } from './document.lifecycle.js';
+import { DocumentEvents } from './document.events.js';
+import { InventoryReconciliationService } from './inventory.reconciliation.service.js';
+import { BlindCount } from './blind.count.js';
+import { RecountService } from './recount.service.js';
+import { SurplusService } from './surplus.service.js';
+import { ProductService } from './product.service.js';
+import { BarcodeMatch, ItemLookup } from './item.lookup.js';
+import { UnitConversion } from './unit.conversion.js';
+import { ChangeJournal } from './change.journal.js';
+import { BatchService, ImportBatch } from './batch.service.js';
+import { ExportSnapshotService } from './export.snapshot.service.js';
+import { BadRequestError, NotFoundError, ConflictError, UnprocessableEntityError } from '../errors.js';
+import { DocumentResolver } from './document.resolver.js';
+import { LocationService } from './location.service.js';
+
+type DocumentItem = Prisma.InventoryItemGetPayload<object>;
+
+export type ImportHeader = Omit<ImportPayload, 'items'>;
 
 export interface ImportPayload {
   externalId: string;
@@ -14,71 +33,89 @@ export interface ImportPayload {
     name: string;
     unit: string;
     qtyFrom1C: string;
-    barcodes: string[];
+    barcodes?: string[]; // не передан — штрихкоды строки не меняются (берутся из каталога)
+    location?: string; // код места хранения склада; не передан — строка без места
+    batches?: ImportBatch[]; // не передан — партии строки не меняются
+    serials?: string[]; // серийные номера без партии; не передан — вместе с batches не меняются
   }>;
 }
 
 export interface UpdateItemsPayload {
   version: number;
-  deviceId?: string;
   items: Array<{
     sku?: string;
     barcode?: string;
+    location?: string; // код или штрихкод места; не передан — текущее место ТСД
+    unit?: string; // единица countedQty; не передана — упаковка штрихкода или базовая единица строки
+    batch?: string; // серия; неизвестная заводится как найденная при пересчёте
+    expiryDate?: string; // срок годности; без batch — ключ партии
+    serial?: string; // серийный номер / код маркировки — одна штука, повтор в документе отклоняется
     countedQty?: string;
     correctedQty?: string;
     note?: string;
   }>;
 }
 
-export interface ApiError {
-  code: string;
-  message: string;
-}
-
 export class InventoryService {
-  // Вспомогательная функция: разрешение id | externalId | onecNumber -> внутренний id
-  private static async resolveDocumentId(db: any, key: string): Promise<string | null> {
-    let d = await db.inventoryDocument.findUnique({ where: { id: key } });
-    if (d) return d.id;
-    try {
-      d = await db.inventoryDocument.findUnique({ where: { externalId: key } });
-      if (d) return d.id;
-    } catch (_) {
-      // ignore if externalId is not unique in schema
+  // Склад и шапка документа при импорте из 1С (общая часть для /onec/inventory-documents/import и сессий импорта).
+  // Новый документ создаётся в статусе IMPORTED, существующий обновляется, только пока он редактируемый.
+  static async upsertImportedDocument(tx: Prisma.TransactionClient, header: ImportHeader) {
+    // 1) Склад
+    const warehouse = await tx.warehouse.upsert({
+      where: { code: header.warehouse.code },
+      create: { code: header.warehouse.code, name: header.warehouse.name },
+      update: { name: header.warehouse.name },
+    });
+
+    // 2) Документ: повторный импорт разрешён только пока документ не зафиксирован,
+    // иначе перезапишем qtyFrom1C у уже пересчитанного документа
+    const existing = await tx.inventoryDocument.findUnique({ where: { externalId: header.externalId } });
+    if (existing && !EDITABLE_STATUSES.includes(existing.status)) {
+      throw new UnprocessableEntityError(`Document ${header.externalId} is ${existing.status} and cannot be re-imported`);
     }
-    d = await db.inventoryDocument.findFirst({ where: { onecNumber: key }, orderBy: { createdAt: 'desc' } });
-    return d ? d.id : null;
-  }
 
-  static async importFrom1C(payload: ImportPayload) {
-    const startTime = Date.now();
-    const importTimeout = parseInt(process.env.IMPORT_TX_TIMEOUT_MS || '120000');
-    const res = await prisma.$transaction(async (tx) => {
-      // 1) Склад
-      const warehouse = await tx.warehouse.upsert({
-        where: { code: payload.warehouse.code },
-        create: { code: payload.warehouse.code, name: payload.warehouse.name },
-        update: { name: payload.warehouse.name },
+    let document;
+    if (existing) {
+      document = await tx.inventoryDocument.update({
+        where: { id: existing.id },
+        data: {
+          onecNumber: header.onecNumber,
+          onecDate: new Date(header.onecDate),
+          warehouseCode: warehouse.code,
+        },
       });
-
-      // 2) Документ
-      const document = await tx.inventoryDocument.upsert({
-        where: { externalId: payload.externalId },
-        create: {
-          externalId: payload.externalId,
-          onecNumber: payload.onecNumber,
-          onecDate: new Date(payload.onecDate),
+      if (existing.status === 'NEW') {
+        document = await DocumentLifecycle.transition(tx, existing, 'IMPORTED', '1C');
+      }
+    } else {
+      document = await tx.inventoryDocument.create({
+        data: {
+          externalId: header.externalId,
+          onecNumber: header.onecNumber,
+          onecDate: new Date(header.onecDate),
           warehouseId: warehouse.id,
           warehouseCode: warehouse.code,
           status: 'IMPORTED',
           version: 1,
         },
-        update: {
-          onecNumber: payload.onecNumber,
-          onecDate: new Date(payload.onecDate),
-          warehouseCode: warehouse.code,
-        },
       });
+      await DocumentLifecycle.recordCreated(tx, document.id, 'IMPORTED', '1C');
+    }
+    return document;
+  }
+
+  // onProgress — процент обработанных строк (для фоновой задачи импорта)
+  static async importFrom1C(payload: ImportPayload, onProgress?: (percent: number) => void) {
+    const startTime = Date.now();
+    const importTimeout = parseInt(process.env.IMPORT_TX_TIMEOUT_MS || '120000');
+    for (const item of payload.items) {
+      const error = BatchService.validate(item);
+      if (error) throw new BadRequestError(`Item ${item.sku}: ${error}`);
+    }
+
+    const res = await prisma.$transaction(async (tx) => {
+      // 1-2) Склад и шапка документа
+      const document = await InventoryService.upsertImportedDocument(tx, payload);
 
       // 3) Предзагрузка существующих позиций одним запросом
       const skus = payload.items.map(i => i.sku);
@@ -88,9 +125,22 @@ export class InventoryService {
       });
       const existingMap = new Map(existingItems.map(i => [i.sku, i.id]));
 
+      // Места хранения строк: коды должны быть заведены на складе заранее
+      const locationCodes = [...new Set(payload.items.flatMap((i) => (i.location ? [i.location] : [])))];
+      const locations = locationCodes.length > 0
+        ? await tx.storageLocation.findMany({ where: { warehouseId: document.warehouseId, code: { in: locationCodes } } })
+        : [];
+      const locationIds = new Map(locations.map((l) => [l.code, l.id]));
+      const unknownLocations = locationCodes.filter((code) => !locationIds.has(code));
+      if (unknownLocations.length > 0) {
+        throw new UnprocessableEntityError(`Unknown storage locations: ${unknownLocations.slice(0, 20).join(', ')}`);
+      }
+
       // 4) Обработка позиций (обновления и создания)
-      for (const item of payload.items) {
+      for (const [index, item] of payload.items.entries()) {
+        if (onProgress && index % 500 === 0) onProgress((index / payload.items.length) * 100);
         const existingId = existingMap.get(item.sku);
+        const productId = await ProductService.ensureProduct(tx, item);
         let itemId: string;
         if (existingId) {
           await tx.inventoryItem.update({
@@ -99,6 +149,8 @@ export class InventoryService {
               name: item.name,
               unit: item.unit,
               qtyFrom1C: new Prisma.Decimal(item.qtyFrom1C),
+              productId,
+              locationId: item.location ? locationIds.get(item.location)! : null,
             },
           });
           itemId = existingId;
@@ -110,14 +162,25 @@ export class InventoryService {
               name: item.name,
               unit: item.unit,
               qtyFrom1C: new Prisma.Decimal(item.qtyFrom1C),
+              productId,
+              locationId: item.location ? locationIds.get(item.location)! : null,
             },
           });
             itemId = created.id;
         }
 
-        // Пересоздание штрихкодов (удаляем только если позиция существовала или пришли новые баркоды)
-        await tx.inventoryItemBarcode.deleteMany({ where: { itemId } });
+        if (item.batches !== undefined || item.serials !== undefined) {
+          await BatchService.applyImport(tx, document.id, itemId, item);
+        }
+
+        // Штрихкоды строки приводятся к присланному набору: удаляем только исчезнувшие, добавляем новые
+        if (item.barcodes === undefined) continue;
+        await tx.inventoryItemBarcode.deleteMany({ where: { itemId, barcode: { notIn: item.barcodes } } });
         if (item.barcodes.length > 0) {
+          // Штрихкод, перешедший в 1С к другой строке этого документа
+          await tx.inventoryItemBarcode.deleteMany({
+            where: { documentId: document.id, barcode: { in: item.barcodes }, itemId: { not: itemId } },
+          });
           const toCreate = item.barcodes.map((b, idx) => ({
             documentId: document.id,
             itemId,
@@ -137,18 +200,26 @@ export class InventoryService {
 
     const took = Date.now() - startTime;
     console.log(`Import of ${payload.externalId} completed in ${took} ms`);
+    DocumentEvents.publish({ type: 'document.imported', documentId: res.id, version: res.version, itemCount: res.items.length });
     return res;
   }
 
-  static async getDocument(id: string) {
-    const resolvedId = await InventoryService.resolveDocumentId(prisma, id);
-    if (!resolvedId) throw { code: 'NOT_FOUND', message: 'Document not found' } as ApiError;
+  static async getDocumentWarehouseCode(id: string): Promise<string | null> {
+    const resolvedId = await DocumentResolver.find(prisma, id);
+    if (!resolvedId) return null;
+    const document = await prisma.inventoryDocument.findUnique({ where: { id: resolvedId }, select: { warehouseCode: true } });
+    return document?.warehouseCode ?? null;
+  }
+
+  // hideExpected — запрос от счётчика: в слепом режиме qtyFrom1C/deltaQty не отдаются
+  static async getDocument(id: string, hideExpected = false) {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
     const document = await prisma.inventoryDocument.findUnique({
       where: { id: resolvedId },
       include: { warehouse: true, items: { include: { barcodes: true } } },
     });
-    if (!document) throw { code: 'NOT_FOUND', message: 'Document not found' } as ApiError;
-    return document;
+    if (!document) throw new NotFoundError('Document not found');
+    return BlindCount.apply(document, hideExpected);
   }
 
   static async listWarehouses() {
@@ -156,97 +227,137 @@ export class InventoryService {
     return warehouses;
   }
 
-  static async getDocumentsByWarehouse(warehouseCode: string) {
-    const documents = await prisma.inventoryDocument.findMany({
-      where: { warehouseCode },
-      include: {
-        warehouse: true,
-        items: {
-          select: {
-            id: true,
-            sku: true,
-            name: true,
-            unit: true,
-            qtyFrom1C: true,
-            countedQty: true,
-            correctedQty: true,
-            deltaQty: true,
-            note: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
+  // blindCount, assignmentPolicy: значение — явно для документа, null — как у склада
+  static async updateDocumentSettings(id: string, settings: { blindCount?: boolean | null; assignmentPolicy?: AssignmentPolicy | null }) {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
+    const document = await prisma.inventoryDocument.update({
+      where: { id: resolvedId },
+      data: { blindCount: settings.blindCount, assignmentPolicy: settings.assignmentPolicy },
+      include: { warehouse: true },
     });
-    return documents;
+    return {
+      id: document.id,
+      blindCount: document.blindCount,
+      effectiveBlindCount: BlindCount.isEnabled(document),
+      assignmentPolicy: document.assignmentPolicy,
+      effectiveAssignmentPolicy: document.assignmentPolicy ?? document.warehouse.assignmentPolicy,
+    };
   }
 
-  static async updateItems(id: string, payload: UpdateItemsPayload) {
-    return await prisma.$transaction(async (tx) => {
+  static async updateWarehouseSettings(code: string, settings: { blindCount?: boolean; assignmentPolicy?: AssignmentPolicy }) {
+    const warehouse = await prisma.warehouse.findUnique({ where: { code } });
+    if (!warehouse) throw new NotFoundError(`Warehouse ${code} not found`);
+    return await prisma.warehouse.update({
+      where: { id: warehouse.id },
+      data: { blindCount: settings.blindCount, assignmentPolicy: settings.assignmentPolicy },
+    });
+  }
+
+  // deviceId — идентификатор аутентифицированного устройства/пользователя, не из тела запроса
+  static async updateItems(key: string, payload: UpdateItemsPayload, deviceId: string, hideExpected = false) {
+    const changedItemIds = new Set<string>();
+    const updatedDocument = await prisma.$transaction(async (tx) => {
+      const id = await DocumentResolver.resolve(tx, key);
       const document = await tx.inventoryDocument.findUnique({ where: { id } });
       if (!document) {
-        throw { code: 'NOT_FOUND', message: 'Document not found' } as ApiError;
+        throw new NotFoundError('Document not found');
       }
+      DocumentLifecycle.assertEditable(document);
       if (document.version !== payload.version) {
-        throw { code: 'CONFLICT', message: `Version mismatch. Expected ${document.version}, got ${payload.version}` } as ApiError;
+        throw new ConflictError(`Version mismatch. Expected ${document.version}, got ${payload.version}`);
       }
-
-      for (const itemUpdate of payload.items) {
+      const currentLocation = await LocationService.getCurrent(tx, id, deviceId);
+
+      for (const line of payload.items) {
+        const itemUpdate = await ItemLookup.unpack(tx, id, line);
+        const location = itemUpdate.location
+          ? await LocationService.resolve(tx, document.warehouseId, itemUpdate.location)
+          : currentLocation;
+        const locationId = location?.id ?? null;
         let itemId: string;
-        let currentItem: any | null = null;
+        let currentItem: DocumentItem;
+        let scanned: BarcodeMatch | null = null;
 
         if (itemUpdate.sku) {
           const item = await tx.inventoryItem.findUnique({
             where: { documentId_sku: { documentId: id, sku: itemUpdate.sku } },
           });
           if (!item) {
-            throw { code: 'NOT_FOUND', message: `Item with SKU ${itemUpdate.sku} not found` } as ApiError;
+            throw new NotFoundError(`Item with SKU ${itemUpdate.sku} not found`);
           }
           itemId = item.id;
           currentItem = item;
         } else if (itemUpdate.barcode) {
-          const barcode = await tx.inventoryItemBarcode.findUnique({
-            where: { documentId_barcode: { documentId: id, barcode: itemUpdate.barcode } },
-          });
-          if (!barcode) {
-            throw { code: 'NOT_FOUND', message: `Barcode ${itemUpdate.barcode} not found` } as ApiError;
+          scanned = await ItemLookup.byBarcode(tx, id, itemUpdate.gtin ?? itemUpdate.barcode);
+          if (!scanned) {
+            // Товара нет в документе 1С — учитываем скан как излишек, чтобы не потерять
+            if (itemUpdate.countedQty === undefined) {
+              throw new NotFoundError(`Barcode ${itemUpdate.barcode} not found`);
+            }
+            await SurplusService.record(
+              tx, id, itemUpdate.gtin ?? itemUpdate.barcode, deviceId, locationId, new Prisma.Decimal(itemUpdate.countedQty), 'add',
+              { note: itemUpdate.note, scan: itemUpdate.gtin && itemUpdate.barcode },
+            );
+            continue;
           }
-          itemId = barcode.itemId;
-          currentItem = await tx.inventoryItem.findUnique({ where: { id: itemId } });
+          itemId = scanned.itemId;
+          currentItem = await tx.inventoryItem.findUniqueOrThrow({ where: { id: itemId } });
+        } else if (itemUpdate.serial) {
+          itemId = await BatchService.findItemBySerial(tx, id, itemUpdate.serial);
+          currentItem = await tx.inventoryItem.findUniqueOrThrow({ where: { id: itemId } });
         } else {
-          throw { code: 'BAD_REQUEST', message: 'Either sku or barcode must be provided' } as ApiError;
+          throw new BadRequestError('Either sku, barcode or serial must be provided');
         }
 
-        const updateData: any = {};
-        let newCounted: Prisma.Decimal | undefined;
-        let newCorrected: Prisma.Decimal | undefined;
-        if (itemUpdate.countedQty !== undefined) {
-          const base = currentItem?.countedQty ?? new Prisma.Decimal(0);
-          const add = new Prisma.Decimal(itemUpdate.countedQty);
-          newCounted = (base as Prisma.Decimal).add(add);
-          updateData.countedQty = newCounted;
+        const { batchId, serial } = await BatchService.forCount(tx, id, itemId, itemUpdate, deviceId);
+
+        // Скан штрихкода или серийного номера без количеств и примечания — одна штука (упаковка) товара
+        const countedQty = itemUpdate.countedQty ?? (
+          (scanned || serial) && itemUpdate.correctedQty === undefined && itemUpdate.note === undefined ? '1' : undefined
+        );
+
+        // Строка прибавляет количество к итогу, в журнал идёт накопленный счёт устройства в месте
+        const updateData: Prisma.InventoryItemUncheckedUpdateInput = {};
+        let deviceCounted: Prisma.Decimal | undefined;
+        let deviceCorrected: Prisma.Decimal | undefined;
+        let scan: ReturnType<typeof UnitConversion.journal> | undefined;
+        if (countedQty !== undefined) {
+          const scanUnit = await UnitConversion.resolve(
+            tx, currentItem, itemUpdate.unit, serial || itemUpdate.weighed ? null : scanned,
+          );
+          scan = UnitConversion.journal(new Prisma.Decimal(countedQty), scanUnit);
+          const base = currentItem.countedQty ?? new Prisma.Decimal(0);
+          const add = scan.baseQty;
+          updateData.countedQty = base.add(add);
+          const prev = await InventoryReconciliationService.latestDeviceValue(tx, itemId, deviceId, locationId, batchId, 'countedQty');
+          deviceCounted = prev.add(add);
         }
         if (itemUpdate.correctedQty !== undefined) {
-          const base = currentItem?.correctedQty ?? new Prisma.Decimal(0);
+          const base = currentItem.correctedQty ?? new Prisma.Decimal(0);
           const add = new Prisma.Decimal(itemUpdate.correctedQty);
-          newCorrected = (base as Prisma.Decimal).add(add);
-          updateData.correctedQty = newCorrected;
+          updateData.correctedQty = base.add(add);
+          const prev = await InventoryReconciliationService.latestDeviceValue(tx, itemId, deviceId, locationId, batchId, 'correctedQty');
+          deviceCorrected = prev.add(add);
         }
         if (itemUpdate.note !== undefined) {
           updateData.note = itemUpdate.note;
         }
 
         await tx.inventoryItem.update({ where: { id: itemId }, data: updateData });
+        changedItemIds.add(itemId);
 
-    if (itemUpdate.countedQty !== undefined || itemUpdate.correctedQty !== undefined || itemUpdate.note !== undefined) {
-          await (tx as any).inventoryItemChange.create({
-            data: {
-              documentId: id,
-              itemId,
-              deviceId: payload.deviceId || 'unknown',
-      countedQty: newCounted ?? null,
-      correctedQty: newCorrected ?? null,
-              note: itemUpdate.note,
-            },
+        if (countedQty !== undefined || itemUpdate.correctedQty !== undefined || itemUpdate.note !== undefined) {
+          await ChangeJournal.append(tx, {
+            documentId: id,
+            itemId,
+            deviceId,
+            countedQty: deviceCounted ?? null,
+            correctedQty: deviceCorrected ?? null,
+            note: itemUpdate.note,
+            locationId,
+            batchId,
+            serial,
+            ...scan,
           });
         }
       }
@@ -258,126 +369,202 @@ export class InventoryService {
       });
       return updatedDocument;
     }, { maxWait: 10000, timeout: 15000 });
+
+    DocumentEvents.publish({
+      type: 'items.changed',
+      documentId: updatedDocument.id,
+      version: updatedDocument.version,
+      deviceId,
+      items: updatedDocument.items.filter((it) => changedItemIds.has(it.id)).map(DocumentEvents.toItemState),
+    });
+    return BlindCount.apply(updatedDocument, hideExpected);
   }
 
-  static async revise(id: string) {
-    return await prisma.$transaction(async (tx) => {
-      const document = await tx.inventoryDocument.findUnique({ where: { id }, include: { items: true } });
+  static async revise(key: string, changedBy: string) {
+    let documentId = '';
+    const result = await prisma.$transaction(async (tx) => {
+      documentId = await DocumentResolver.resolve(tx, key);
+      const document = await tx.inventoryDocument.findUnique({ where: { id: documentId } });
       if (!document) {
-        throw { code: 'NOT_FOUND', message: 'Document not found' } as ApiError;
+        throw new NotFoundError('Document not found');
       }
+      DocumentLifecycle.assertTransition(document, 'REVISED');
+      await RecountService.assertNoOpenTasks(tx, document.id);
 
-      for (const item of document.items) {
-        const counted = item.countedQty ?? new Prisma.Decimal(0);
-        const correctedBase = item.correctedQty ?? counted;
-        const delta = (correctedBase as Prisma.Decimal).sub(item.qtyFrom1C);
-        await tx.inventoryItem.update({ where: { id: item.id }, data: { deltaQty: delta } });
+      // deltaQty = (correctedQty ?? countedQty) - qtyFrom1C по тем же итогам, что уйдут в 1С
+      const reconciled = await InventoryReconciliationService.reconcile(tx, document.id);
+
+      // Расхождения вне допуска: вместо фиксации ставим задания на перепересчёт
+      const recountTasks = await RecountService.planRecounts(tx, document, reconciled);
+      if (recountTasks.length > 0) {
+        return { success: false, status: document.status, version: document.version, recountTasks };
       }
 
-      const updated = await tx.inventoryDocument.update({
-        where: { id: document.id },
-        data: { status: 'REVISED', version: { increment: 1 } },
-      });
-      return { success: true, status: updated.status, version: updated.version };
+      for (const item of reconciled) {
+        await tx.inventoryItem.update({ where: { id: item.itemId }, data: { deltaQty: item.discrepancy } });
+      }
+
+      const updated = await DocumentLifecycle.transition(tx, document, 'REVISED', changedBy);
+      return { success: true, status: updated.status, version: updated.version, recountTasks };
     }, { maxWait: 10000, timeout: 15000 });
+
+    if (!result.success) return result;
+    DocumentEvents.publish({ type: 'status.changed', documentId, version: result.version, status: result.status, changedBy });
+    return result;
   }
 
-  static async exportFor1C(id: string) {
+  // Экспорт = снимок итогов (ExportSnapshot). Выгруженный документ заморожен — отдаём подтверждённый снимок
+  static async exportFor1C(id: string, createdBy: string) {
     // Разрешаем id | externalId | onecNumber
-    const resolvedId = await InventoryService.resolveDocumentId(prisma, id);
-    if (!resolvedId) throw { code: 'NOT_FOUND', message: 'Document not found' } as ApiError;
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
 
-    const document = await prisma.inventoryDocument.findUnique({
-      where: { id: resolvedId },
-      include: { warehouse: true, items: { include: { barcodes: true } } },
+    const acknowledged = await ExportSnapshotService.findAcknowledged(prisma, resolvedId);
+    if (acknowledged) return ExportSnapshotService.toResponse(acknowledged);
+
+    // Снимок — итоги для загрузки в 1С: пока пересчёт не зафиксирован, итогов ещё нет
+    const document = await prisma.inventoryDocument.findUnique({ where: { id: resolvedId }, select: { status: true } });
+    if (!document) throw new NotFoundError('Document not found');
+    if (!EXPORTABLE_STATUSES.includes(document.status)) {
+      throw new UnprocessableEntityError(`Document in status ${document.status} cannot be exported`);
+    }
+
+    await RecountService.assertNoOpenTasks(prisma, resolvedId);
+    const snapshot = await ExportSnapshotService.capture(resolvedId, createdBy);
+    return ExportSnapshotService.toResponse(snapshot);
+  }
+
+  // Данные выгрузки в 1С. db — prisma или транзакция: вебхуки строят тот же payload внутри перехода статуса
+  static async buildExport(db: Prisma.TransactionClient, documentId: string) {
+    const document = await db.inventoryDocument.findUnique({
+      where: { id: documentId },
+      include: {
+        warehouse: true,
+        items: { include: { barcodes: { orderBy: { barcode: 'asc' } } }, orderBy: { sku: 'asc' } },
+      },
+    });
+    if (!document) throw new NotFoundError('Document not found');
+
+    // Итоги по строкам: последние значения по каждому deviceId с учётом решений супервизора
+    const reconciled = await InventoryReconciliationService.reconcile(db, document.id);
+    const totals = new Map(reconciled.map((r) => [r.itemId, r]));
+
+    // Несопоставленные излишки в итоги не входят — отдаём их отдельно, чтобы 1С видела неучтённый товар
+    const openSurplus = await db.inventorySurplusLine.groupBy({
+      by: ['barcode'],
+      where: { documentId: document.id, status: 'OPEN' },
+      _sum: { countedQty: true },
+      orderBy: { barcode: 'asc' },
     });
-    if (!document) throw { code: 'NOT_FOUND', message: 'Document not found' } as ApiError;
-
-    // Берём последние зафиксированные количества из таблицы InventoryItemChange
-      // Берём последние значения по deviceId и складываем их
-      const changes: Array<{ itemId: string; countedQty: Prisma.Decimal | null; correctedQty: Prisma.Decimal | null; createdAt: Date; deviceId: string }>
-        = await (prisma as any).inventoryItemChange.findMany({
-          where: { documentId: document.id },
-          select: { itemId: true, countedQty: true, correctedQty: true, createdAt: true, deviceId: true },
-          orderBy: { createdAt: 'asc' },
-        });
-
-      // Для каждой строки: deviceId -> последнее изменение (по времени)
-      const latestByDevice = new Map<string, Map<string, { counted: Prisma.Decimal; corrected: Prisma.Decimal }>>();
-      // Группируем по itemId и deviceId
-      const grouped = new Map<string, Map<string, Array<{ counted: Prisma.Decimal; corrected: Prisma.Decimal; createdAt: Date }>>>();
-      for (const ch of changes) {
-        if (!grouped.has(ch.itemId)) grouped.set(ch.itemId, new Map());
-        const devMap = grouped.get(ch.itemId)!;
-        if (!devMap.has(ch.deviceId)) devMap.set(ch.deviceId, []);
-        devMap.get(ch.deviceId)!.push({
-          counted: ch.countedQty ?? new Prisma.Decimal(0),
-          corrected: ch.correctedQty ?? new Prisma.Decimal(0),
-          createdAt: ch.createdAt,
-        });
-      }
-      // Для каждой itemId и deviceId выбираем самое позднее изменение
-      for (const [itemId, devMap] of grouped.entries()) {
-        latestByDevice.set(itemId, new Map());
-        for (const [deviceId, arr] of devMap.entries()) {
-          if (arr.length === 0) continue;
-          // Находим с максимальным createdAt
-          let latest = arr[0];
-          for (const rec of arr) {
-            if (rec.createdAt > latest.createdAt) latest = rec;
-          }
-          latestByDevice.get(itemId)!.set(deviceId, {
-            counted: latest.counted,
-            corrected: latest.corrected,
-          });
-        }
-      }
 
     return {
       externalId: document.externalId,
       warehouse: { code: document.warehouse.code },
       items: document.items.map((item) => {
-        const devMap = latestByDevice.get(item.id) || new Map();
-        // Складываем только последние значения по каждому deviceId
-        let countedSum = new Prisma.Decimal(0);
-        let correctedSum = new Prisma.Decimal(0);
-        for (const v of devMap.values()) {
-          countedSum = countedSum.add(v.counted);
-          correctedSum = correctedSum.add(v.corrected);
-        }
-        // Если нет изменений — fallback к значениям из строки
-        if (devMap.size === 0) {
-          countedSum = item.countedQty ?? new Prisma.Decimal(0);
-          correctedSum = item.correctedQty ?? countedSum;
-        }
-        const deltaFinal = correctedSum.sub(item.qtyFrom1C);
+        const total = totals.get(item.id)!;
         return {
           name: item.name,
           sku: item.sku,
           unit: item.unit,
-          correctedQty: correctedSum.toString(),
-          countedQty: countedSum.toString(),
-          deltaQty: deltaFinal.toString(),
+          isNew: item.source === 'SURPLUS', // строки нет в документе 1С, qtyFrom1C = 0
+          qtyFrom1C: item.qtyFrom1C.toString(),
+          correctedQty: total.finalQty.toString(),
+          countedQty: total.countedTotal.toString(),
+          deltaQty: total.discrepancy.toString(),
           barcodes: item.barcodes.map((b) => b.barcode),
+          // Только для строк, посчитанных по местам хранения: снимки остальных документов не меняются
+          ...(total.locations.length > 0 ? {
+            locations: total.locations.map((l) => ({
+              location: l.locationCode,
+              countedQty: (l.countedQty ?? new Prisma.Decimal(0)).toString(),
+              correctedQty: l.correctedQty?.toString() ?? null,
+            })),
+          } : {}),
+          // Только для строк с партиями или серийными номерами
+          ...(total.batches.length > 0 ? {
+            batches: total.batches.map((b) => ({
+              batch: b.batch,
+              expiryDate: b.expiryDate && b.expiryDate.toISOString().slice(0, 10),
+              qtyFrom1C: b.qtyFrom1C.toString(),
+              countedQty: (b.countedQty ?? new Prisma.Decimal(0)).toString(),
+              correctedQty: b.correctedQty?.toString() ?? null,
+              serials: b.serials,
+            })),
+          } : {}),
         };
       }),
+      unresolvedSurplus: openSurplus.map((row) => ({
+        barcode: row.barcode,
+        countedQty: (row._sum.countedQty ?? new Prisma.Decimal(0)).toString(),
+      })),
     };
   }
 
-  static async ack(id: string) {
-    return await prisma.$transaction(async (tx) => {
-      const resolvedId = await InventoryService.resolveDocumentId(tx, id);
-      if (!resolvedId) throw { code: 'NOT_FOUND', message: 'Document not found' } as ApiError;
+  // Подтверждение 1С: какой именно снимок загружен. Снимок должен совпадать с текущими итогами документа
+  static async ack(id: string, snapshotId: string) {
+    const transitioned = await prisma.$transaction(async (tx) => {
+      const resolvedId = await DocumentResolver.resolve(tx, id);
 
       const document = await tx.inventoryDocument.findUnique({ where: { id: resolvedId } });
-      if (!document) throw { code: 'NOT_FOUND', message: 'Document not found' } as ApiError;
+      if (!document) throw new NotFoundError('Document not found');
 
-      if (document.status !== 'REVISED' && document.status !== 'EXPORTED') {
-        throw { code: 'UNPROCESSABLE_ENTITY', message: 'Document must be in REVISED or EXPORTED status' } as ApiError;
+      const snapshot = await tx.exportSnapshot.findUnique({ where: { id: snapshotId } });
+      if (!snapshot || snapshot.documentId !== document.id) {
+        throw new NotFoundError('Export snapshot not found');
       }
 
-      await tx.inventoryDocument.update({ where: { id: document.id }, data: { status: 'EXPORTED' } });
-      return { success: true };
+      if (document.status === 'EXPORTED') {
+        // Повторный ack того же снимка — идемпотентен
+        if (snapshot.acknowledgedAt) return null;
+        const acknowledged = await ExportSnapshotService.findAcknowledged(tx, document.id);
+        throw new ConflictError(`Document is already acknowledged with snapshot ${acknowledged?.id ?? 'unknown'}`);
+      }
+      DocumentLifecycle.assertTransition(document, 'EXPORTED');
+
+      // Снимок сделан до переоткрытия/новых решений — 1С загрузила не то, что зафиксировано сейчас
+      const current = ExportSnapshotService.hash(await InventoryService.buildExport(tx, document.id));
+      if (current !== snapshot.hash) {
+        throw new ConflictError('Export snapshot is outdated, export the document again');
+      }
+
+      await tx.exportSnapshot.update({
+        where: { id: snapshot.id },
+        data: { acknowledgedAt: new Date(), acknowledgedBy: '1C' },
+      });
+      return await DocumentLifecycle.transition(tx, document, 'EXPORTED', '1C');
+    }, { maxWait: 5000, timeout: 30000 });
+
+    if (transitioned) {
+      DocumentEvents.publish({
+        type: 'status.changed',
+        documentId: transitioned.id,
+        version: transitioned.version,
+        status: transitioned.status,
+        changedBy: '1C',
+      });
+    }
+    return { success: true, snapshotId };
+  }
+
+  // Переоткрытие зафиксированного документа (REVISED -> IMPORTED), операция администратора
+  static async reopen(id: string, changedBy: string, reason?: string) {
+    const updated = await prisma.$transaction(async (tx) => {
+      const resolvedId = await DocumentResolver.resolve(tx, id);
+
+      const document = await tx.inventoryDocument.findUnique({ where: { id: resolvedId } });
+      if (!document) throw new NotFoundError('Document not found');
+
+      return await DocumentLifecycle.transition(tx, document, 'IMPORTED', changedBy, reason);
     }, { maxWait: 5000, timeout: 10000 });
+
+    DocumentEvents.publish({ type: 'status.changed', documentId: updated.id, version: updated.version, status: updated.status, changedBy });
+    return { success: true, status: updated.status, version: updated.version };
+  }
+
+  static async getStatusHistory(id: string) {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
+    return await prisma.inventoryDocumentStatusHistory.findMany({
+      where: { documentId: resolvedId },
+      orderBy: { createdAt: 'asc' },
+    });
   }
 }
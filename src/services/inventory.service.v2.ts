@@ -1,224 +1,184 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../prisma.js';
+import { DocumentLifecycle } from './document.lifecycle.js';
+import { DocumentEvents, ItemState } from './document.events.js';
+import { BlindCount } from './blind.count.js';
+import { SurplusService } from './surplus.service.js';
+import { BarcodeMatch, ItemLookup } from './item.lookup.js';
+import { UnitConversion } from './unit.conversion.js';
+import { BatchService } from './batch.service.js';
+import { ChangeJournal } from './change.journal.js';
+import { InventoryReconciliationService } from './inventory.reconciliation.service.js';
+import { NotFoundError, ConflictError } from '../errors.js';
+import { DocumentResolver } from './document.resolver.js';
+import { CountAssignmentService } from './count.assignment.service.js';
+import { LocationService } from './location.service.js';
+
+type DocumentItem = Prisma.InventoryItemGetPayload<object>;
 
 export interface UpdateItemsPayloadV2 {
   version: number;
-  deviceId?: string; // Идентификатор ТСД
   items: Array<{
     sku?: string;
     barcode?: string;
+    unit?: string; // единица countedQty; не передана — упаковка штрихкода или базовая единица строки
     countedQty?: string;
     correctedQty?: string;
     note?: string;
+    location?: string; // код или штрихкод места; не передано — текущее место ТСД
+    batch?: string;
+    expiryDate?: string;
+    serial?: string; // серийный номер / код маркировки: одна штука, прибавляется к счёту устройства
     lastKnownModified?: string; // Timestamp последнего известного изменения
   }>;
 }
 
+export type ConflictField = 'countedQty' | 'correctedQty' | 'note';
+
+export interface ItemConflict {
+  sku: string;
+  field: ConflictField;
+  yourValue: string | null;
+  currentValue: string | null;
+  lastModified: string;
+  lastDeviceId: string | null;
+}
+
+// Строка вне заданий счётчика: при политике WARN применена, при REJECT — нет
+export interface ItemIssue {
+  sku: string;
+  code: 'OUTSIDE_ASSIGNMENT';
+  message: string;
+}
+
 export interface UpdateResult {
   success: boolean;
   version: number;
   appliedChanges: number;
+  conflicts: ItemConflict[];
+  surplus: string[]; // штрихкоды, учтённые как излишек
+  warnings: ItemIssue[];
+  rejected: ItemIssue[];
 }
 
 export class InventoryServiceV2 {
-  // Универсальное разрешение документа по ключу: id | externalId | onecNumber
-  private static async resolveDocumentId(db: any, key: string): Promise<string | null> {
-    // 1) Пытаемся как внутренний id
-    let doc = await db.inventoryDocument.findUnique({ where: { id: key } });
-    if (doc) return doc.id;
-
-    // 2) Пытаемся как externalId (предполагается уникальность)
-    try {
-      doc = await db.inventoryDocument.findUnique({ where: { externalId: key } });
-      if (doc) return doc.id;
-    } catch (_) {
-      // ignore if not unique in schema
-    }
-
-    // 3) Пытаемся как onecNumber (может быть не уникальным) — берём самый свежий
-    doc = await db.inventoryDocument.findFirst({
-      where: { onecNumber: key },
-      orderBy: { createdAt: 'desc' },
-    });
-    return doc ? doc.id : null;
-  }
-
-  // static async updateItemsWithMerge(id: string, payload: UpdateItemsPayloadV2): Promise<UpdateResult> {
-  //   return await prisma.$transaction(async (tx) => {
-  //     // 1. Разрешаем идентификатор (id | externalId | onecNumber) -> внутренний id
-  //     const resolvedId = await InventoryServiceV2.resolveDocumentId(tx, id);
-  //     if (!resolvedId) {
-  //       throw { code: 'NOT_FOUND', message: 'Document not found' };
-  //     }
-
-  //     // 2. Оптимистическая блокировка: атомарно инкрементируем версию, если она совпадает с переданной
-  //   //   const bump = await tx.inventoryDocument.updateMany({
-  //   //     where: { id: resolvedId, version: payload.version },
-  //   //     data: { version: { increment: 1 } },
-  //   //   });
-  //   //   if (bump.count === 0) {
-  //   //     const current = await tx.inventoryDocument.findUnique({
-  //   //       where: { id: resolvedId },
-  //   //       select: { version: true },
-  //   //     });
-  //   //     throw {
-  //   //       code: 'CONFLICT',
-  //   //       message: `Document version mismatch. Current ${current?.version}, provided ${payload.version}`,
-  //   //     };
-  //   //   }
-
-  //     // Загружаем документ после успешного bump
-  //     const document = await tx.inventoryDocument.findUnique({
-  //       where: { id: resolvedId },
-  //       include: { items: true },
-  //     });
-  //     if (!document) {
-  //       throw { code: 'NOT_FOUND', message: 'Document not found' };
-  //     }
-
-  // let appliedChanges = 0;
-
-  //     // 2. Обрабатываем каждое изменение
-  //     for (const itemUpdate of payload.items) {
-  //       let targetItem: any;
-
-  //       // Находим целевую строку
-  //       if (itemUpdate.sku) {
-  //         targetItem = document.items.find(item => item.sku === itemUpdate.sku);
-  // } else if (itemUpdate.barcode) {
-  //         const barcode = await tx.inventoryItemBarcode.findUnique({
-  //           where: {
-  //             documentId_barcode: {
-  //   documentId: document.id,
-  //               barcode: itemUpdate.barcode,
-  //             },
-  //           },
-  //         });
-  //         if (barcode) {
-  //           targetItem = document.items.find(item => item.id === barcode.itemId);
-  //         }
-  //       }
-
-  //       if (!targetItem) {
-  //         continue; // Пропускаем несуществующие строки
-  //       }
-
-  //   // Конфликты не обрабатываем
-
-  //       // 4. Применяем изменения (стратегия "последний побеждает")
-  //       const updateData: any = {};
-  //       let newCounted: Prisma.Decimal | undefined;
-  //       let newCorrected: Prisma.Decimal | undefined;
-  //       let hasUpdates = false;
-
-  //       if (itemUpdate.countedQty !== undefined) {
-  //         newCounted = new Prisma.Decimal(itemUpdate.countedQty);
-  //         hasUpdates = true;
-  //       }
-
-  //       if (itemUpdate.correctedQty !== undefined) {
-  //         newCorrected = new Prisma.Decimal(itemUpdate.correctedQty);
-  //         hasUpdates = true;
-  //       }
-        
-  //       if (itemUpdate.note !== undefined) {
-  //         updateData.note = itemUpdate.note;
-  //         hasUpdates = true;
-  //       }
-
-  //       if (hasUpdates) {
-  //         // Только логируем изменения устройства, inventoryItem не обновляем
-  //         await (tx as any).inventoryItemChange.create({
-  //           data: {
-  //             documentId: document.id,
-  //             itemId: targetItem.id,
-  //             deviceId: payload.deviceId || 'unknown',
-  //             countedQty: newCounted ?? null,
-  //             correctedQty: newCorrected ?? null,
-  //             note: itemUpdate.note,
-  //           },
-  //         });
-  //         appliedChanges++;
-  //       }
-  //     }
-
-  //     return {
-  //       success: true,
-  //       version: document.version,
-  //       appliedChanges,
-  //     };
-  //   }, {
-  //     maxWait: 10000,
-  //     timeout: 15000,
-  //   });
-  // }
-  static async updateItemsWithMerge(id: string, payload: UpdateItemsPayloadV2): Promise<UpdateResult> {
+  // checkAssignments — сверять строки с заданиями счётчика (для роли COUNTER)
+  static async updateItemsWithMerge(
+    id: string, payload: UpdateItemsPayloadV2, deviceId: string, checkAssignments = false,
+  ): Promise<UpdateResult> {
   const decEq = (a?: Prisma.Decimal | null, b?: Prisma.Decimal | null) => {
     if (a == null && b == null) return true;
     if (a == null || b == null) return false;
     return new Prisma.Decimal(a).equals(new Prisma.Decimal(b));
   };
+  const decStr = (v?: Prisma.Decimal | null) => (v == null ? null : v.toString());
+  let documentId = '';
+  const changedItems: ItemState[] = [];
 
-  return await prisma.$transaction(async (tx) => {
+  const result = await prisma.$transaction(async (tx) => {
     // 1) Разрешаем идентификатор
-    const resolvedId = await InventoryServiceV2.resolveDocumentId(tx, id);
-    if (!resolvedId) {
-      throw { code: 'NOT_FOUND', message: 'Document not found' };
-    }
+    const resolvedId = await DocumentResolver.resolve(tx, id);
 
     // 2) Загружаем документ
     const document = await tx.inventoryDocument.findUnique({
       where: { id: resolvedId },
-      include: { items: true },
+      include: { items: true, warehouse: true },
     });
     if (!document) {
-      throw { code: 'NOT_FOUND', message: 'Document not found' };
+      throw new NotFoundError('Document not found');
+    }
+    DocumentLifecycle.assertEditable(document);
+    documentId = document.id;
+
+    const assignmentCheck = checkAssignments
+      ? await CountAssignmentService.assignmentCheck(tx, document, deviceId)
+      : null;
+    const currentLocation = await LocationService.getCurrent(tx, document.id, deviceId);
+
+    // Клиент не может знать версию новее серверной: такой запрос — ошибка клиента, а не устаревание, и слиянием не решается
+    if (payload.version > document.version) {
+      throw new ConflictError(`Document version mismatch. Current ${document.version}, provided ${payload.version}`);
     }
 
     let appliedChanges = 0;
+    const conflicts: ItemConflict[] = [];
+    const surplus: string[] = [];
+    const warnings: ItemIssue[] = [];
+    const rejected: ItemIssue[] = [];
 
     // 3) Обрабатываем изменения
-    for (const itemUpdate of payload.items) {
-      let targetItem: any;
-
-      // Поиск строки по sku или barcode
+    for (const line of payload.items) {
+      // Скан GS1: строка ищется по GTIN, вес — количество, AI 10/17/21 — партия и серийный номер
+      const itemUpdate = await ItemLookup.unpack(tx, document.id, line);
+      const location = itemUpdate.location
+        ? await LocationService.resolve(tx, document.warehouseId, itemUpdate.location)
+        : currentLocation;
+      const locationId = location?.id ?? null;
+      let targetItem: DocumentItem | undefined;
+      let scanned: BarcodeMatch | null = null;
+
+      // Поиск строки по sku, barcode или серийному номеру из данных 1С
       if (itemUpdate.sku) {
         targetItem = document.items.find((it) => it.sku === itemUpdate.sku);
       } else if (itemUpdate.barcode) {
-        const barcode = await tx.inventoryItemBarcode.findUnique({
-          where: {
-            documentId_barcode: {
-              documentId: document.id,
-              barcode: itemUpdate.barcode,
-            },
-          },
-        });
-        if (barcode) {
-          targetItem = document.items.find((it) => it.id === barcode.itemId);
+        scanned = await ItemLookup.byBarcode(tx, document.id, itemUpdate.gtin ?? itemUpdate.barcode);
+        if (scanned) {
+          targetItem = document.items.find((it) => it.id === scanned!.itemId);
         }
+      } else if (itemUpdate.serial) {
+        const itemId = await BatchService.findItemBySerial(tx, document.id, itemUpdate.serial);
+        targetItem = document.items.find((it) => it.id === itemId);
       }
 
-      if (!targetItem) continue;
+      if (!targetItem) {
+        // Неизвестный штрихкод — излишек; значение v2 абсолютное, поэтому заменяем счёт устройства в месте
+        if (!itemUpdate.sku && itemUpdate.barcode && itemUpdate.countedQty !== undefined) {
+          await SurplusService.record(
+            tx, document.id, itemUpdate.gtin ?? itemUpdate.barcode, deviceId, locationId, new Prisma.Decimal(itemUpdate.countedQty), 'set',
+            { note: itemUpdate.note, scan: itemUpdate.gtin && itemUpdate.barcode },
+          );
+          surplus.push(itemUpdate.barcode);
+          appliedChanges++;
+        }
+        continue;
+      }
 
-      // Новые значения (могут быть undefined => не трогаем поле)
-      const incomingCounted = (itemUpdate.countedQty !== undefined)
-        ? new Prisma.Decimal(itemUpdate.countedQty)
+      // Партия и серийный номер ведутся как в v1 (BatchService): счёт устройства — в своей партии, серийный номер —
+      // одна штука, которая прибавляется к счёту устройства, повтор номера — 409 DUPLICATE_SERIAL
+      const serialScan = itemUpdate.serial !== undefined;
+      const tracked = serialScan || BatchService.key(itemUpdate.batch, itemUpdate.expiryDate) !== null;
+      const countedQty = itemUpdate.countedQty ?? (
+        serialScan && itemUpdate.correctedQty === undefined && itemUpdate.note === undefined ? '1' : undefined
+      );
+
+      // Новые значения (могут быть undefined => не трогаем поле); countedQty — в базовой единице строки
+      const scan = (countedQty !== undefined)
+        ? UnitConversion.journal(
+            new Prisma.Decimal(countedQty),
+            await UnitConversion.resolve(tx, targetItem, itemUpdate.unit, serialScan || itemUpdate.weighed ? null : scanned),
+          )
         : undefined;
+      const incomingCounted = scan?.baseQty;
 
       const incomingCorrected = (itemUpdate.correctedQty !== undefined)
         ? new Prisma.Decimal(itemUpdate.correctedQty)
         : undefined;
 
-      // Текущее состояние
+      // Текущее состояние: итог строки и счёт этого устройства в месте (значение v2 заменяет именно его).
+      // Партия строки известна только после BatchService.forCount, поэтому счёт с партией или номером применяется всегда
       const currentCounted: Prisma.Decimal | null = targetItem.countedQty ?? null;
       const currentCorrected: Prisma.Decimal | null = targetItem.correctedQty ?? null;
+      const deviceValue = (batchId: string | null, field: 'countedQty' | 'correctedQty') =>
+        InventoryReconciliationService.latestDeviceValue(tx, targetItem.id, deviceId, locationId, batchId, field);
+      let deviceCounted = incomingCounted !== undefined && !tracked ? await deviceValue(null, 'countedQty') : undefined;
+      let deviceCorrected = incomingCorrected !== undefined && !tracked ? await deviceValue(null, 'correctedQty') : undefined;
 
-      // Проверяем, реально ли меняются количества
+      // Проверяем, реально ли меняются количества; у непосчитанной строки меняет и ноль
       const countedWillChange =
-        incomingCounted !== undefined && !decEq(incomingCounted, currentCounted);
+        incomingCounted !== undefined && (tracked || currentCounted === null || !decEq(incomingCounted, deviceCounted));
 
       const correctedWillChange =
-        incomingCorrected !== undefined && !decEq(incomingCorrected, currentCorrected);
+        incomingCorrected !== undefined && (tracked || currentCorrected === null || !decEq(incomingCorrected, deviceCorrected));
 
       const noteWillChange =
         itemUpdate.note !== undefined && itemUpdate.note !== targetItem.note;
@@ -228,52 +188,138 @@ export class InventoryServiceV2 {
         continue;
       }
 
-      // Обновляем сам item только теми полями, которые действительно меняются
-      const itemUpdateData: any = {};
-      if (countedWillChange) itemUpdateData.countedQty = incomingCounted;
-      if (correctedWillChange) itemUpdateData.correctedQty = incomingCorrected;
+      // Конфликт: строку изменили после того, как ТСД её прочитал.
+      // Такую строку не трогаем целиком и возвращаем клиенту текущие значения по каждому полю.
+      if (itemUpdate.lastKnownModified !== undefined) {
+        const lastKnown = new Date(itemUpdate.lastKnownModified);
+        const updatedAt: Date = targetItem.updatedAt;
+        if (updatedAt.getTime() > lastKnown.getTime()) {
+          const lastChange = await tx.inventoryItemChange.findFirst({
+            where: { itemId: targetItem.id },
+            orderBy: { createdAt: 'desc' },
+            select: { deviceId: true },
+          });
+          const base = {
+            sku: targetItem.sku as string,
+            lastModified: updatedAt.toISOString(),
+            lastDeviceId: lastChange?.deviceId ?? null,
+          };
+          if (countedWillChange) {
+            conflicts.push({ ...base, field: 'countedQty', yourValue: decStr(incomingCounted), currentValue: decStr(currentCounted) });
+          }
+          if (correctedWillChange) {
+            conflicts.push({ ...base, field: 'correctedQty', yourValue: decStr(incomingCorrected), currentValue: decStr(currentCorrected) });
+          }
+          if (noteWillChange) {
+            conflicts.push({ ...base, field: 'note', yourValue: itemUpdate.note ?? null, currentValue: targetItem.note ?? null });
+          }
+          continue;
+        }
+      }
+
+      // Строка вне заданий счётчика: WARN — применяем с предупреждением, REJECT — пропускаем
+      if (assignmentCheck && !assignmentCheck.covers(targetItem, location?.id)) {
+        const issue = {
+          sku: targetItem.sku as string,
+          code: 'OUTSIDE_ASSIGNMENT' as const,
+          message: `Item ${targetItem.sku} is outside the assignments of ${deviceId}`,
+        };
+        if (assignmentCheck.policy === 'REJECT') {
+          rejected.push(issue);
+          continue;
+        }
+        warnings.push(issue);
+      }
+
+      // Партия и серийный номер — только для строки, которая точно применяется: номер здесь же отмечается отсканированным
+      let tracking: { batchId: string | null; serial: string | null } = { batchId: null, serial: null };
+      let newCounted = incomingCounted;
+      if (tracked) {
+        tracking = await BatchService.forCount(tx, document.id, targetItem.id, { ...itemUpdate, countedQty }, deviceId);
+        if (countedWillChange) deviceCounted = await deviceValue(tracking.batchId, 'countedQty');
+        if (correctedWillChange) deviceCorrected = await deviceValue(tracking.batchId, 'correctedQty');
+        if (countedWillChange && serialScan) newCounted = deviceCounted!.add(incomingCounted!);
+      }
+
+      // Обновляем сам item только теми полями, которые действительно меняются:
+      // итог строки сдвигается на разницу между новым и прежним счётом устройства в месте
+      const itemUpdateData: Prisma.InventoryItemUncheckedUpdateInput = {};
+      if (countedWillChange) {
+        itemUpdateData.countedQty = (currentCounted ?? new Prisma.Decimal(0)).add(newCounted!.sub(deviceCounted!));
+      }
+      if (correctedWillChange) {
+        itemUpdateData.correctedQty = (currentCorrected ?? new Prisma.Decimal(0)).add(incomingCorrected!.sub(deviceCorrected!));
+      }
       if (noteWillChange) itemUpdateData.note = itemUpdate.note;
 
       if (Object.keys(itemUpdateData).length > 0) {
-        await tx.inventoryItem.update({
+        const updatedItem = await tx.inventoryItem.update({
           where: { id: targetItem.id },
           data: itemUpdateData,
         });
+        changedItems.push(DocumentEvents.toItemState(updatedItem));
       }
 
       // Логируем изменение (записываем только реально изменившиеся количества;
       // если количество не менялось, кладём null, чтобы журнал не «забивал» одинаковыми значениями)
-      await (tx as any).inventoryItemChange.create({
-        data: {
-          documentId: document.id,
-          itemId: targetItem.id,
-          deviceId: payload.deviceId || 'unknown',
-          countedQty: countedWillChange ? incomingCounted! : null,
-          correctedQty: correctedWillChange ? incomingCorrected! : null,
-          note: noteWillChange ? itemUpdate.note! : null,
-        },
+      await ChangeJournal.append(tx, {
+        documentId: document.id,
+        itemId: targetItem.id,
+        deviceId,
+        countedQty: countedWillChange ? newCounted! : null,
+        correctedQty: correctedWillChange ? incomingCorrected! : null,
+        note: noteWillChange ? itemUpdate.note! : null,
+        locationId,
+        ...tracking,
+        ...(countedWillChange ? scan : {}),
       });
 
       appliedChanges++;
     }
 
+    // 4) Оптимистическая блокировка: атомарно инкрементируем версию, только если её никто не сдвинул,
+    // пока мы применяли изменения. Иначе откатываем весь пакет — клиент повторит запрос.
+    let version = document.version;
+    if (appliedChanges > 0) {
+      const bump = await tx.inventoryDocument.updateMany({
+        where: { id: document.id, version: document.version },
+        data: { version: { increment: 1 } },
+      });
+      if (bump.count === 0) {
+        throw new ConflictError('Document was modified concurrently, retry the request');
+      }
+      version = document.version + 1;
+    }
+
     return {
       success: true,
-      version: document.version, // если нужен bump версии — раскомментируй ваш блок оптимистической блокировки
+      version,
       appliedChanges,
+      conflicts,
+      surplus,
+      warnings,
+      rejected,
     };
   }, {
     maxWait: 10000,
     timeout: 15000,
   });
+
+  if (changedItems.length > 0) {
+    DocumentEvents.publish({
+      type: 'items.changed',
+      documentId,
+      version: result.version,
+      deviceId,
+      items: changedItems,
+    });
+  }
+  return result;
 }
 
   // Метод для получения изменений с timestamp
-  static async getDocumentWithTimestamps(id: string) {
-    const resolvedId = await InventoryServiceV2.resolveDocumentId(prisma, id);
-    if (!resolvedId) {
-      throw { code: 'NOT_FOUND', message: 'Document not found' };
-    }
+  static async getDocumentWithTimestamps(id: string, hideExpected = false) {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
 
     const document = await prisma.inventoryDocument.findUnique({
       where: { id: resolvedId },
@@ -288,7 +334,7 @@ export class InventoryServiceV2 {
     });
 
     if (!document) {
-      throw { code: 'NOT_FOUND', message: 'Document not found' };
+      throw new NotFoundError('Document not found');
     }
 
     // Добавляем timestamp для каждой строки
@@ -300,6 +346,6 @@ export class InventoryServiceV2 {
       })),
     };
 
-    return documentWithTimestamps;
+    return BlindCount.apply(documentWithTimestamps, hideExpected);
   }
 }
@@ -0,0 +1,344 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { DocumentLifecycle } from './document.lifecycle.js';
+import { DocumentEvents, ItemState } from './document.events.js';
+import { SurplusService } from './surplus.service.js';
+import { BarcodeMatch, ItemLookup } from './item.lookup.js';
+import { UnitConversion } from './unit.conversion.js';
+import { ChangeJournal } from './change.journal.js';
+import { BatchService } from './batch.service.js';
+import { AppError, NotFoundError, ConflictError } from '../errors.js';
+import { DocumentResolver } from './document.resolver.js';
+import { InventoryReconciliationService } from './inventory.reconciliation.service.js';
+import { LocationService } from './location.service.js';
+
+// Операция пересчёта, накопленная ТСД офлайн.
+// opId генерирует ТСД (UUID) — повторная отправка той же операции игнорируется.
+// Операция без sku и barcode, но с location — скан места: следующие операции пакета и запросы ТСД
+// относятся к этому месту.
+export interface SyncOperation {
+  opId: string;
+  sku?: string;
+  barcode?: string;
+  location?: string; // код или штрихкод места; для товара — место только этой операции
+  mode?: 'add' | 'set'; // add (по умолчанию) — прибавить к своему счёту, set — заменить свой счёт
+  unit?: string; // единица countedQty; не передана — упаковка штрихкода или базовая единица строки
+  batch?: string; // серия; неизвестная заводится как найденная при пересчёте
+  expiryDate?: string; // срок годности; без batch — ключ партии
+  serial?: string; // серийный номер / код маркировки — одна штука, повтор в документе отклоняется
+  countedQty?: string;
+  correctedQty?: string;
+  note?: string;
+}
+
+export interface SyncPayload {
+  operations: SyncOperation[];
+}
+
+export interface SyncRejection {
+  opId: string;
+  code: string;
+  message: string;
+}
+
+export interface SyncResult {
+  success: boolean;
+  version: number;
+  applied: string[];
+  duplicates: string[];
+  rejected: SyncRejection[];
+  surplus: string[]; // opId операций с неизвестным штрихкодом, учтённых как излишек
+  location: string | null; // код текущего места ТСД после пакета
+}
+
+export interface ChangedItem {
+  sku: string;
+  countedQty: string | null;
+  correctedQty: string | null;
+  note: string | null;
+  lastModified: string;
+  lastDeviceId: string;
+}
+
+export interface ChangesPage {
+  cursor: number;
+  hasMore: boolean;
+  items: ChangedItem[];
+}
+
+export class InventorySyncService {
+  // Применяет пакет операций ТСД ровно один раз.
+  //
+  // В журнал InventoryItemChange пишется собственный накопленный счёт устройства по строке в месте
+  // хранения (так же его читает exportFor1C: последнее значение по deviceId и месту), а countedQty/correctedQty
+  // строки сдвигаются на разницу между новым и прежним счётом устройства.
+  //
+  // Скан места (операция с location без товара или штрихкод этикетки места) в журнал не пишется —
+  // повтор такой операции просто ещё раз выбирает то же место.
+  static async applyOperations(id: string, payload: SyncPayload, deviceId: string): Promise<SyncResult> {
+    let documentId = '';
+    const changedItems = new Map<string, ItemState>();
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const resolvedId = await DocumentResolver.resolve(tx, id);
+
+        const document = await tx.inventoryDocument.findUnique({
+          where: { id: resolvedId },
+          include: { items: true },
+        });
+        if (!document) throw new NotFoundError('Document not found');
+        DocumentLifecycle.assertEditable(document);
+        documentId = document.id;
+
+        // Уже применённые ранее операции
+        const opIds = payload.operations.map((op) => op.opId);
+        const [known, knownSurplus] = await Promise.all([
+          tx.inventoryItemChange.findMany({ where: { opId: { in: opIds } }, select: { opId: true } }),
+          tx.inventorySurplusChange.findMany({ where: { opId: { in: opIds } }, select: { opId: true } }),
+        ]);
+        const seen = new Set([...known, ...knownSurplus].map((k) => k.opId!));
+
+        const itemsBySku = new Map(document.items.map((it) => [it.sku, it]));
+        const itemsById = new Map(document.items.map((it) => [it.id, it]));
+        const initialLocation = await LocationService.getCurrent(tx, document.id, deviceId);
+        let currentLocation = initialLocation;
+
+        const applied: string[] = [];
+        const duplicates: string[] = [];
+        const rejected: SyncRejection[] = [];
+        const surplus: string[] = [];
+        let locationScans = 0;
+
+        for (const operation of payload.operations) {
+          if (seen.has(operation.opId)) {
+            duplicates.push(operation.opId);
+            continue;
+          }
+          seen.add(operation.opId);
+
+          // Скан GS1: штрихкод заменяется GTIN, партия, срок, номер и вес — поля операции. Битый скан отклоняется
+          let op: SyncOperation & { gtin?: string; weighed: boolean };
+          try {
+            op = await ItemLookup.unpack(tx, document.id, operation);
+          } catch (error) {
+            if (!(error instanceof AppError)) throw error;
+            rejected.push({ opId: operation.opId, code: error.code, message: error.message });
+            continue;
+          }
+
+          let opLocation = currentLocation;
+          if (op.location) {
+            opLocation = await LocationService.find(tx, document.warehouseId, op.location);
+            if (!opLocation) {
+              rejected.push({ opId: op.opId, code: 'NOT_FOUND', message: `Location ${op.location} not found` });
+              continue;
+            }
+            if (!op.sku && !op.barcode && !op.serial) {
+              currentLocation = opLocation;
+              applied.push(op.opId);
+              locationScans++;
+              continue;
+            }
+          }
+
+          let item = op.sku ? itemsBySku.get(op.sku) : undefined;
+          let scanned: BarcodeMatch | null = null;
+          if (!op.sku && op.barcode) {
+            scanned = await ItemLookup.byBarcode(tx, document.id, op.gtin ?? op.barcode);
+            if (scanned) item = itemsById.get(scanned.itemId);
+          } else if (!op.sku && op.serial) {
+            const known = await tx.inventoryItemSerial.findUnique({
+              where: { documentId_serial: { documentId: document.id, serial: op.serial } },
+              select: { itemId: true },
+            });
+            if (known) item = itemsById.get(known.itemId);
+          }
+          // Штрихкод не товара, а этикетки места
+          if (!item && !op.sku && op.barcode) {
+            const scanned = await LocationService.find(tx, document.warehouseId, op.barcode);
+            if (scanned && op.countedQty === undefined && op.correctedQty === undefined) {
+              currentLocation = scanned;
+              applied.push(op.opId);
+              locationScans++;
+              continue;
+            }
+            if (scanned) {
+              rejected.push({ opId: op.opId, code: 'BAD_REQUEST', message: `Barcode ${op.barcode} is a location label, not an item` });
+              continue;
+            }
+          }
+          if (!item && !op.sku && op.barcode && op.countedQty !== undefined) {
+            await SurplusService.record(
+              tx, document.id, op.gtin ?? op.barcode, deviceId, opLocation?.id ?? null, new Prisma.Decimal(op.countedQty), op.mode ?? 'add',
+              { opId: op.opId, note: op.note, scan: op.gtin && op.barcode },
+            );
+            applied.push(op.opId);
+            surplus.push(op.opId);
+            continue;
+          }
+          if (!item) {
+            rejected.push({
+              opId: op.opId,
+              code: 'NOT_FOUND',
+              message: op.sku
+                ? `Item with SKU ${op.sku} not found`
+                : op.barcode ? `Barcode ${op.barcode} not found` : `Serial ${op.serial} not found`,
+            });
+            continue;
+          }
+
+          const mode = op.mode ?? 'add';
+          // Скан штрихкода или серийного номера без количеств и примечания — одна штука (упаковка) товара
+          const countedQty = op.countedQty ?? (
+            (scanned || op.serial) && mode === 'add' && op.correctedQty === undefined && op.note === undefined ? '1' : undefined
+          );
+          const scanUnit = countedQty !== undefined
+            ? await UnitConversion.find(tx, item, op.unit, op.serial || op.weighed ? null : scanned)
+            : null;
+          if (countedQty !== undefined && !scanUnit) {
+            rejected.push({ opId: op.opId, code: 'UNPROCESSABLE_ENTITY', message: UnitConversion.unknownUnitMessage(item, op.unit!) });
+            continue;
+          }
+
+          // Партия и серийный номер: повтор номера, номер другой строки — операция отклоняется, пакет идёт дальше
+          let tracking: { batchId: string | null; serial: string | null };
+          try {
+            tracking = await BatchService.forCount(tx, document.id, item.id, op, deviceId);
+          } catch (error) {
+            if (!(error instanceof AppError)) throw error;
+            rejected.push({ opId: op.opId, code: error.code, message: error.message });
+            continue;
+          }
+
+          const locationId = opLocation?.id ?? null;
+          const itemData: Prisma.InventoryItemUpdateInput = {};
+          let deviceCounted: Prisma.Decimal | null = null;
+          let deviceCorrected: Prisma.Decimal | null = null;
+          let scan: ReturnType<typeof UnitConversion.journal> | undefined;
+
+          if (countedQty !== undefined) {
+            const prev = await InventoryReconciliationService.latestDeviceValue(tx, item.id, deviceId, locationId, tracking.batchId, 'countedQty');
+            scan = UnitConversion.journal(new Prisma.Decimal(countedQty), scanUnit!);
+            const qty = scan.baseQty;
+            deviceCounted = mode === 'add' ? prev.add(qty) : qty;
+            item.countedQty = (item.countedQty ?? new Prisma.Decimal(0)).add(deviceCounted.sub(prev));
+            itemData.countedQty = item.countedQty;
+          }
+          if (op.correctedQty !== undefined) {
+            const prev = await InventoryReconciliationService.latestDeviceValue(tx, item.id, deviceId, locationId, tracking.batchId, 'correctedQty');
+            const qty = new Prisma.Decimal(op.correctedQty);
+            deviceCorrected = mode === 'add' ? prev.add(qty) : qty;
+            item.correctedQty = (item.correctedQty ?? new Prisma.Decimal(0)).add(deviceCorrected.sub(prev));
+            itemData.correctedQty = item.correctedQty;
+          }
+          if (op.note !== undefined) {
+            item.note = op.note;
+            itemData.note = op.note;
+          }
+
+          const updatedItem = await tx.inventoryItem.update({ where: { id: item.id }, data: itemData });
+          changedItems.set(item.id, DocumentEvents.toItemState(updatedItem));
+          await ChangeJournal.append(tx, {
+            opId: op.opId,
+            documentId: document.id,
+            itemId: item.id,
+            deviceId,
+            countedQty: deviceCounted,
+            correctedQty: deviceCorrected,
+            note: op.note ?? null,
+            locationId,
+            ...tracking,
+            ...scan,
+          });
+          applied.push(op.opId);
+        }
+
+        if (currentLocation?.id !== initialLocation?.id) {
+          await LocationService.setCurrent(tx, document.id, deviceId, currentLocation);
+        }
+
+        // Скан места документ не меняет
+        let version = document.version;
+        if (applied.length > locationScans) {
+          const updated = await tx.inventoryDocument.update({
+            where: { id: document.id },
+            data: { version: { increment: 1 } },
+          });
+          version = updated.version;
+        }
+
+        return { success: true, version, applied, duplicates, rejected, surplus, location: currentLocation?.code ?? null };
+      }, { maxWait: 10000, timeout: 15000 });
+
+      if (changedItems.size > 0) {
+        DocumentEvents.publish({
+          type: 'items.changed',
+          documentId,
+          version: result.version,
+          deviceId,
+          items: [...changedItems.values()],
+        });
+      }
+      return result;
+    } catch (error) {
+      // Тот же пакет параллельно применяется другим запросом (повтор ТСД) — клиент повторит и получит duplicates
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Operations are being applied concurrently, retry the request');
+      }
+      throw error;
+    }
+  }
+
+  // Строки, изменённые другими устройствами после курсора (docSeq журнала изменений, см. ChangeJournal)
+  static async getChangesSince(id: string, since: number, deviceId?: string, limit = 500): Promise<ChangesPage> {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
+
+    // Фиксируем конец журнала до выборки: изменения, закоммиченные позже, попадут в следующий запрос.
+    // Все записи с docSeq не больше закоммиченного счётчика документа уже видны
+    const document = await prisma.inventoryDocument.findUnique({ where: { id: resolvedId }, select: { changeSeq: true } });
+    if (!document) throw new NotFoundError('Document not found');
+    const head = document.changeSeq;
+    // Курсор больше счётчика — курсор старого формата (глобальный seq): читаем журнал сначала
+    const from = since > head ? 0 : since;
+
+    const changes = await prisma.inventoryItemChange.findMany({
+      where: {
+        documentId: resolvedId,
+        docSeq: { gt: from, lte: head },
+        ...(deviceId ? { deviceId: { not: deviceId } } : {}),
+      },
+      orderBy: { docSeq: 'asc' },
+      take: limit + 1,
+      select: { docSeq: true, itemId: true, deviceId: true },
+    });
+
+    const hasMore = changes.length > limit;
+    const page = changes.slice(0, limit);
+
+    // Последнее устройство по каждой строке в пределах страницы
+    const lastDeviceByItem = new Map<string, string>();
+    for (const ch of page) lastDeviceByItem.set(ch.itemId, ch.deviceId);
+
+    const items = await prisma.inventoryItem.findMany({
+      where: { id: { in: [...lastDeviceByItem.keys()] } },
+    });
+
+    // На последней странице сдвигаем курсор на конец журнала, чтобы собственные изменения
+    // устройства не перечитывались при следующем запросе
+    const cursor = hasMore ? page[page.length - 1].docSeq! : head;
+
+    return {
+      cursor,
+      hasMore,
+      items: items.map((item) => ({
+        sku: item.sku,
+        countedQty: item.countedQty?.toString() ?? null,
+        correctedQty: item.correctedQty?.toString() ?? null,
+        note: item.note,
+        lastModified: item.updatedAt.toISOString(),
+        lastDeviceId: lastDeviceByItem.get(item.id)!,
+      })),
+    };
+  }
+}
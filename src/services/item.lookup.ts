@@ -0,0 +1,51 @@
+import { Prisma } from '@prisma/client';
+import { Gs1, ScanLine } from './gs1.js';
+
+// Строка документа по скану; unit и factor — упаковка штрихкода по каталогу (коробка = 24 шт),
+// для штрихкода единичного товара unit = null, factor = 1
+export interface BarcodeMatch {
+  itemId: string;
+  unit: string | null;
+  factor: Prisma.Decimal;
+}
+
+// Поиск строки документа по отсканированному штрихкоду.
+// Сначала штрихкоды самого документа, затем каталог: товар по штрихкоду каталога ищется среди строк документа.
+// GTIN ищется во всех формах (EAN-8, UPC-A, EAN-13, GTIN-14), точное совпадение с присланным кодом — в приоритете.
+// Кратность упаковки всегда берётся из каталога — 1С передаёт её только там.
+export class ItemLookup {
+  // Разбор скана строки пересчёта (Gs1.unpack). Непомеченный скан сначала ищется как есть — среди штрихкодов
+  // документа, затем каталога: обычный код Code 128, который начинается с 01 и цифр, не принимается за GS1
+  static async unpack<T extends ScanLine>(tx: Prisma.TransactionClient, documentId: string, line: T) {
+    const barcode = line.barcode;
+    if (!barcode || Gs1.isMarked(barcode)) return Gs1.unpack(line, false);
+    const exact =
+      (await tx.inventoryItemBarcode.findFirst({ where: { documentId, barcode }, select: { id: true } })) ??
+      (await tx.productBarcode.findFirst({ where: { barcode }, select: { id: true } }));
+    return Gs1.unpack(line, exact !== null);
+  }
+
+  static async byBarcode(tx: Prisma.TransactionClient, documentId: string, barcode: string): Promise<BarcodeMatch | null> {
+    const forms = Gs1.gtinForms(barcode);
+    const rank = (b: { barcode: string }) => forms.indexOf(b.barcode);
+    const [own, catalog] = await Promise.all([
+      tx.inventoryItemBarcode.findMany({
+        where: { documentId, barcode: { in: forms } },
+        select: { itemId: true, barcode: true },
+      }).then((rows) => rows.sort((a, b) => rank(a) - rank(b))[0]),
+      tx.productBarcode.findMany({
+        where: { barcode: { in: forms } },
+        select: { barcode: true, unit: true, factor: true, product: { select: { id: true, sku: true } } },
+      }).then((rows) => rows.sort((a, b) => rank(a) - rank(b))[0]),
+    ]);
+    const pack = { unit: catalog?.unit ?? null, factor: catalog?.factor ?? new Prisma.Decimal(1) };
+    if (own) return { itemId: own.itemId, ...pack };
+    if (!catalog) return null;
+
+    const item = await tx.inventoryItem.findFirst({
+      where: { documentId, OR: [{ productId: catalog.product.id }, { sku: catalog.product.sku }] },
+      select: { id: true },
+    });
+    return item ? { itemId: item.id, ...pack } : null;
+  }
+}
@@ -0,0 +1,226 @@
+import { randomUUID } from 'node:crypto';
+import { JobType, Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { ImportPayload, InventoryService } from './inventory.service.js';
+import { ImportSessionService } from './import.session.service.js';
+import { AppError, ConflictError, NotFoundError, fromPrismaError, logError } from '../errors.js';
+
+export interface JobContext {
+  progress(percent: number): void;
+}
+
+// Данные задачи по типу (Job.payload)
+export interface JobPayloads {
+  IMPORT: ImportPayload; // задачи старых версий; новый фоновый импорт идёт через IMPORT_SESSION_COMMIT
+  IMPORT_SESSION_COMMIT: { sessionId: string };
+  REVISE: { documentId: string; changedBy: string };
+  EXPORT: { documentId: string; createdBy: string };
+}
+
+type JobHandlers = { [T in JobType]: (payload: JobPayloads[T], ctx: JobContext) => Promise<unknown> };
+
+// Обработчики задач. Результат сохраняется в Job.result и отдаётся через GET /jobs/:id
+const handlers: JobHandlers = {
+  IMPORT: async (payload, ctx) => {
+    const document = await InventoryService.importFrom1C(payload, ctx.progress);
+    return { documentId: document.id, externalId: document.externalId, version: document.version, itemCount: document.items.length };
+  },
+  IMPORT_SESSION_COMMIT: async (payload, ctx) => {
+    return await ImportSessionService.commit(payload.sessionId, ctx.progress, true);
+  },
+  REVISE: async (payload) => {
+    const result = await InventoryService.revise(payload.documentId, payload.changedBy);
+    if (!result.success) {
+      // Как в синхронном POST /revise: документ не зафиксирован, задача завершается RECOUNT_REQUIRED
+      throw new ConflictError(`${result.recountTasks.length} item(s) exceed discrepancy tolerance and must be recounted`, {
+        code: 'RECOUNT_REQUIRED',
+        details: { recountTasks: result.recountTasks },
+      });
+    }
+    return result;
+  },
+  EXPORT: async (payload) => {
+    return await InventoryService.exportFor1C(payload.documentId, payload.createdBy);
+  },
+};
+
+const POLL_MS = parseInt(process.env.JOB_POLL_MS || '1000');
+const RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || '5000');
+const RETRY_MAX_MS = 10 * 60 * 1000;
+// Задача, чей lockedAt не продлевался дольше этого времени, считается брошенной (сервер упал) и возвращается в очередь
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '120000');
+const HEARTBEAT_MS = Math.max(1000, Math.floor(LOCK_TIMEOUT_MS / 4));
+const PROGRESS_THROTTLE_MS = 1000;
+
+export class JobQueue {
+  private static workerId = randomUUID();
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+  private static stopped = true;
+
+  static async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], createdBy: string) {
+    const job = await prisma.job.create({ data: { type, payload: payload as unknown as Prisma.InputJsonObject, createdBy } });
+    JobQueue.schedule(0);
+    return { jobId: job.id, status: job.status, statusUrl: `/jobs/${job.id}` };
+  }
+
+  // Задачу видит создавший её токен и администратор
+  static async get(id: string, actorId: string, isAdmin: boolean) {
+    const job = await prisma.job.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        progress: true,
+        attempts: true,
+        maxAttempts: true,
+        runAt: true,
+        result: true,
+        error: true,
+        createdBy: true,
+        createdAt: true,
+        startedAt: true,
+        finishedAt: true,
+      },
+    });
+    if (!job || (!isAdmin && job.createdBy !== actorId)) {
+      throw new NotFoundError('Job not found');
+    }
+    return job;
+  }
+
+  static start() {
+    JobQueue.stopped = false;
+    JobQueue.schedule(0);
+  }
+
+  static stop() {
+    JobQueue.stopped = true;
+    if (JobQueue.timer) clearTimeout(JobQueue.timer);
+    JobQueue.timer = null;
+  }
+
+  private static schedule(delayMs: number) {
+    if (JobQueue.stopped || JobQueue.running) return;
+    if (JobQueue.timer) clearTimeout(JobQueue.timer);
+    JobQueue.timer = setTimeout(() => {
+      JobQueue.timer = null;
+      JobQueue.tick().catch((err) => logError('Job queue error', err));
+    }, delayMs);
+  }
+
+  // Задачи выполняются по одной на процесс: импорт и фиксация тяжёлые, параллелить их на одном сервере незачем
+  private static async tick() {
+    JobQueue.running = true;
+    let processed = false;
+    try {
+      await JobQueue.requeueStale();
+      const job = await JobQueue.claim();
+      if (job) {
+        processed = true;
+        await JobQueue.run(job);
+      }
+    } finally {
+      JobQueue.running = false;
+      // После выполненной задачи сразу смотрим следующую, иначе ждём интервал опроса
+      JobQueue.schedule(processed ? 0 : POLL_MS);
+    }
+  }
+
+  // Брошенная задача уже потратила попытку (attempts растёт при захвате). Задача, на которой процесс падает
+  // или зависает каждый раз, после maxAttempts попыток завершается с ошибкой, а не крутится в очереди вечно
+  private static async requeueStale() {
+    const stale = { status: 'RUNNING' as const, lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } };
+    await prisma.job.updateMany({
+      where: { ...stale, attempts: { gte: prisma.job.fields.maxAttempts } },
+      data: {
+        status: 'FAILED',
+        error: { code: 'JOB_ABANDONED', message: 'Job was abandoned by a stopped or hung worker too many times' },
+        lockedBy: null,
+        lockedAt: null,
+        finishedAt: new Date(),
+      },
+    });
+    await prisma.job.updateMany({
+      where: stale,
+      data: { status: 'QUEUED', lockedBy: null, lockedAt: null },
+    });
+  }
+
+  // Захват задачи: условный UPDATE по статусу, поэтому одну задачу не возьмут два экземпляра
+  private static async claim() {
+    const next = await prisma.job.findFirst({
+      where: { status: 'QUEUED', runAt: { lte: new Date() } },
+      orderBy: { runAt: 'asc' },
+      select: { id: true },
+    });
+    if (!next) return null;
+
+    const now = new Date();
+    const claimed = await prisma.job.updateMany({
+      where: { id: next.id, status: 'QUEUED' },
+      data: { status: 'RUNNING', lockedBy: JobQueue.workerId, lockedAt: now, startedAt: now, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return null;
+    return await prisma.job.findUnique({ where: { id: next.id } });
+  }
+
+  private static async run(job: NonNullable<Awaited<ReturnType<typeof JobQueue.claim>>>) {
+    const heartbeat = setInterval(() => {
+      prisma.job
+        .updateMany({ where: { id: job.id, lockedBy: JobQueue.workerId }, data: { lockedAt: new Date() } })
+        .catch((err) => logError('Job heartbeat error', err));
+    }, HEARTBEAT_MS);
+
+    let lastProgressAt = 0;
+    const ctx: JobContext = {
+      progress(percent) {
+        const now = Date.now();
+        if (now - lastProgressAt < PROGRESS_THROTTLE_MS) return;
+        lastProgressAt = now;
+        prisma.job
+          .updateMany({ where: { id: job.id, lockedBy: JobQueue.workerId }, data: { progress: Math.min(99, Math.round(percent)) } })
+          .catch((err) => logError('Job progress error', err));
+      },
+    };
+
+    try {
+      const handler = handlers[job.type] as (payload: unknown, ctx: JobContext) => Promise<unknown>;
+      const result = await handler(job.payload, ctx);
+      await prisma.job.update({
+        where: { id: job.id },
+        data: {
+          status: 'SUCCEEDED',
+          progress: 100,
+          result: JSON.parse(JSON.stringify(result ?? null)),
+          error: Prisma.DbNull,
+          lockedBy: null,
+          lockedAt: null,
+          finishedAt: new Date(),
+        },
+      });
+    } catch (err) {
+      // Бизнес-ошибки (404, 409, 422 ...) повтором не исправить — задача сразу завершается с ошибкой.
+      // Конфликт транзакции, недоступность БД и непредвиденные ошибки повторяем с задержкой.
+      const appError = err instanceof AppError ? err : fromPrismaError(err);
+      const transient = !appError || appError.statusCode === 503 || appError.code === 'TRANSACTION_CONFLICT';
+      const retryable = transient && job.attempts < job.maxAttempts;
+      // Ошибка задачи — то же тело, что и ответ синхронного вызова (с recountTasks, errors ...)
+      const error = appError
+        ? (appError.toJSON() as unknown as Prisma.InputJsonObject)
+        : { code: 'INTERNAL_ERROR', message: err instanceof Error ? err.message : String(err) };
+      if (transient) logError('Job attempt failed', err, { jobId: job.id, jobType: job.type, attempt: job.attempts });
+
+      const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (job.attempts - 1));
+      await prisma.job.update({
+        where: { id: job.id },
+        data: retryable
+          ? { status: 'QUEUED', error, runAt: new Date(Date.now() + delay), lockedBy: null, lockedAt: null }
+          : { status: 'FAILED', error, lockedBy: null, lockedAt: null, finishedAt: new Date() },
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { Prisma, StorageLocation, StorageLocationType } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { NotFoundError, UnprocessableEntityError } from '../errors.js';
+
+export interface LocationInput {
+  code: string;
+  type: StorageLocationType;
+  name?: string | null;
+  parentCode?: string | null; // null — место верхнего уровня
+  barcode?: string | null;
+  isActive?: boolean;
+}
+
+// Уровень в иерархии: родитель всегда выше ребёнка (ячейка может лежать прямо в зоне)
+const LEVEL: Record<StorageLocationType, number> = { ZONE: 0, AISLE: 1, BIN: 2 };
+
+export class LocationService {
+  static async list(warehouseCode: string, includeInactive = false) {
+    const warehouse = await prisma.warehouse.findUnique({ where: { code: warehouseCode } });
+    if (!warehouse) throw new NotFoundError(`Warehouse ${warehouseCode} not found`);
+
+    const locations = await prisma.storageLocation.findMany({
+      where: { warehouseId: warehouse.id, ...(includeInactive ? {} : { isActive: true }) },
+      include: { parent: { select: { code: true } } },
+      orderBy: { code: 'asc' },
+    });
+    return locations.map(({ parent, ...location }) => ({ ...location, parentCode: parent?.code ?? null }));
+  }
+
+  // Загрузка мест пакетом: создаёт новые и обновляет существующие по коду.
+  // Родитель ищется среди уже сохранённых мест и среди предыдущих записей пакета
+  static async upsert(warehouseCode: string, locations: LocationInput[]) {
+    await prisma.$transaction(async (tx) => {
+      const warehouse = await tx.warehouse.findUnique({ where: { code: warehouseCode } });
+      if (!warehouse) throw new NotFoundError(`Warehouse ${warehouseCode} not found`);
+
+      const existing = await tx.storageLocation.findMany({ where: { warehouseId: warehouse.id } });
+      const byCode = new Map(existing.map((l) => [l.code, l]));
+
+      for (const input of locations) {
+        let parentId: string | null | undefined;
+        if (input.parentCode === null) {
+          parentId = null;
+        } else if (input.parentCode !== undefined) {
+          const parent = byCode.get(input.parentCode);
+          if (!parent) throw new UnprocessableEntityError(`Parent location ${input.parentCode} not found`);
+          if (LEVEL[parent.type] >= LEVEL[input.type]) {
+            throw new UnprocessableEntityError(`${input.type} ${input.code} cannot be placed inside ${parent.type} ${parent.code}`);
+          }
+          parentId = parent.id;
+        }
+
+        const current = byCode.get(input.code);
+        if (current && current.type !== input.type) {
+          const child = existing.find((l) => l.parentId === current.id && LEVEL[l.type] <= LEVEL[input.type]);
+          if (child) {
+            throw new UnprocessableEntityError(`${input.code} cannot become ${input.type}: it contains ${child.type} ${child.code}`);
+          }
+        }
+
+        const data = { type: input.type, name: input.name, barcode: input.barcode, isActive: input.isActive, parentId };
+        const saved = current
+          ? await tx.storageLocation.update({ where: { id: current.id }, data })
+          : await tx.storageLocation.create({ data: { ...data, warehouseId: warehouse.id, code: input.code } });
+        byCode.set(saved.code, saved);
+        if (!current) existing.push(saved);
+        else existing[existing.indexOf(current)] = saved;
+      }
+    }, { maxWait: 5000, timeout: 30000 });
+
+    return await LocationService.list(warehouseCode, true);
+  }
+
+  // Место по скану ТСД: код места или штрихкод его этикетки. Неактивные места не выбираются
+  static async find(db: Prisma.TransactionClient, warehouseId: string, value: string): Promise<StorageLocation | null> {
+    return await db.storageLocation.findFirst({
+      where: { warehouseId, isActive: true, OR: [{ code: value }, { barcode: value }] },
+      orderBy: { code: 'asc' },
+    });
+  }
+
+  static async resolve(db: Prisma.TransactionClient, warehouseId: string, value: string): Promise<StorageLocation> {
+    const location = await LocationService.find(db, warehouseId, value);
+    if (!location) throw new NotFoundError(`Location ${value} not found`);
+    return location;
+  }
+
+  // Место и все вложенные в него места; all — места склада
+  static subtree(all: Array<{ id: string; parentId: string | null }>, locationId: string): string[] {
+    const ids = [locationId];
+    for (let i = 0; i < ids.length; i++) {
+      for (const l of all) if (l.parentId === ids[i]) ids.push(l.id);
+    }
+    return ids;
+  }
+
+  static async getCurrent(db: Prisma.TransactionClient, documentId: string, deviceId: string): Promise<StorageLocation | null> {
+    const current = await db.inventoryDeviceLocation.findUnique({
+      where: { documentId_deviceId: { documentId, deviceId } },
+      include: { location: true },
+    });
+    return current?.location ?? null;
+  }
+
+  // null — сбросить текущее место: следующие сканы идут без места
+  static async setCurrent(db: Prisma.TransactionClient, documentId: string, deviceId: string, location: StorageLocation | null) {
+    if (!location) {
+      await db.inventoryDeviceLocation.deleteMany({ where: { documentId, deviceId } });
+      return;
+    }
+    await db.inventoryDeviceLocation.upsert({
+      where: { documentId_deviceId: { documentId, deviceId } },
+      create: { documentId, deviceId, locationId: location.id },
+      update: { locationId: location.id },
+    });
+  }
+
+  // Текущее место ТСД в документе (PUT/GET /inventory-documents/:id/location)
+  static async getDeviceLocation(documentId: string, deviceId: string) {
+    const location = await LocationService.getCurrent(prisma, documentId, deviceId);
+    return { location: location && LocationService.toRef(location) };
+  }
+
+  static async setDeviceLocation(documentId: string, deviceId: string, value: string | null) {
+    return await prisma.$transaction(async (tx) => {
+      const document = await tx.inventoryDocument.findUnique({ where: { id: documentId } });
+      if (!document) throw new NotFoundError('Document not found');
+
+      const location = value === null ? null : await LocationService.resolve(tx, document.warehouseId, value);
+      await LocationService.setCurrent(tx, document.id, deviceId, location);
+      return { location: location && LocationService.toRef(location) };
+    });
+  }
+
+  static toRef(location: StorageLocation) {
+    return { id: location.id, code: location.code, name: location.name, type: location.type };
+  }
+}
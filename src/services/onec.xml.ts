@@ -0,0 +1,366 @@
+import { XMLBuilder, XMLParser, XMLValidator } from 'fast-xml-parser';
+import { ImportPayload } from './inventory.service.js';
+import { BatchService, ImportBatch } from './batch.service.js';
+import { BadRequestError, ErrorIssue } from '../errors.js';
+import type { ExportResponse } from './export.snapshot.service.js';
+import { DATE_PATTERN, DECIMAL_PATTERN } from '../schemas/common.js';
+import { importItemErrors } from '../schemas/onec.js';
+
+// Обмен с 1С в XML: CommerceML 2 (<КоммерческаяИнформация>) и структура документа
+// «Инвентаризация товаров на складе» (<ИнвентаризацияТоваровНаСкладе>). Оба формата
+// отображаются на тот же ImportPayload / ответ экспорта, что и JSON.
+
+export type XmlSchema = 'commerceml' | 'inventory';
+export const XML_SCHEMAS: XmlSchema[] = ['commerceml', 'inventory'];
+
+type XmlNode = Record<string, any>;
+// Текстовый элемент: строка, а при атрибутах — узел с #text
+type XmlText = string | XmlNode;
+
+// Теги, которые всегда разбираются в массив, даже если элемент один
+const ARRAY_TAGS = new Set(['Документ', 'Товар', 'Строка', 'Штрихкод', 'ЗначениеРеквизита', 'Серия', 'СерийныйНомер']);
+const MAX_ISSUES = 100;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  // Значения не приводим к числам: SKU и штрихкоды с ведущими нулями должны остаться строками
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (name) => ARRAY_TAGS.has(name),
+});
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  format: true,
+  suppressEmptyNode: true,
+});
+
+// Значение элемента или одноимённого атрибута: <Склад><Код>MAIN</Код></Склад> и <Склад Код="MAIN"/>
+function text(node: XmlNode | undefined, ...names: string[]): string | undefined {
+  if (!node || typeof node !== 'object') return undefined;
+  for (const name of names) {
+    let value = node[name] ?? node[`@${name}`];
+    if (Array.isArray(value)) value = value[0];
+    if (value && typeof value === 'object') value = value['#text'];
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value).trim();
+  }
+  return undefined;
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null || (value as unknown) === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Номера строк исходного XML, на которых открываются элементы tag — n-й элемент разбора соответствует n-му тегу
+function tagLines(xml: string, tag: string): number[] {
+  const re = new RegExp(`<${tag}[\\s>/]`, 'g');
+  const lines: number[] = [];
+  let line = 1;
+  let pos = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(xml)) !== null) {
+    for (; pos < match.index; pos++) if (xml.charCodeAt(pos) === 10) line++;
+    lines.push(line);
+  }
+  return lines;
+}
+
+// 1С может выгрузить дробную часть через запятую
+function quantity(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const normalized = value.replace(/\s/g, '').replace(',', '.');
+  return new RegExp(DECIMAL_PATTERN).test(normalized) ? normalized : undefined;
+}
+
+function barcodes(node: XmlNode): string[] | undefined {
+  const direct = asArray<XmlText>(node['Штрихкод']);
+  const nested = asArray<XmlText>(node['Штрихкоды']?.['Штрихкод']);
+  if (direct.length === 0 && nested.length === 0 && node['Штрихкоды'] === undefined) return undefined;
+  return [...direct, ...nested]
+    .map((b) => String(typeof b === 'object' ? b['#text'] ?? '' : b).trim())
+    .filter((b) => b !== '');
+}
+
+// <СерийныеНомера><СерийныйНомер>…</СерийныйНомер></СерийныеНомера>; элемента нет — undefined
+function serials(node: XmlNode): string[] | undefined {
+  if (node['СерийныеНомера'] === undefined) return undefined;
+  return asArray<XmlText>(node['СерийныеНомера']?.['СерийныйНомер'])
+    .map((s) => String(typeof s === 'object' ? s['#text'] ?? '' : s).trim())
+    .filter((s) => s !== '');
+}
+
+// Партии строки: <Серии><Серия><Номер/><СрокГодности/><КоличествоУчет/><СерийныеНомера/></Серия></Серии>
+function batches(node: XmlNode, problems: string[]): ImportBatch[] | undefined {
+  if (node['Серии'] === undefined) return undefined;
+  return asArray<XmlNode>(node['Серии']?.['Серия']).map((b, idx) => {
+    const rawQty = text(b, 'КоличествоУчет');
+    const qty = quantity(rawQty);
+    const expiryDate = text(b, 'СрокГодности');
+    if (qty === undefined || qty.startsWith('-')) problems.push(`Invalid Серии/Серия[${idx + 1}]/КоличествоУчет: ${rawQty ?? ''}`);
+    if (expiryDate !== undefined && !new RegExp(DATE_PATTERN).test(expiryDate)) {
+      problems.push(`Invalid Серии/Серия[${idx + 1}]/СрокГодности: ${expiryDate}`);
+    }
+    return {
+      qtyFrom1C: qty ?? '0',
+      ...(text(b, 'Номер') ? { batch: text(b, 'Номер') } : {}),
+      ...(expiryDate ? { expiryDate } : {}),
+      ...(serials(b) ? { serials: serials(b) } : {}),
+    };
+  });
+}
+
+type RawItem = {
+  sku?: string; name?: string; unit?: string; qty?: string; rawQty?: string; barcodes?: string[]; location?: string;
+  batches?: ImportBatch[]; serials?: string[];
+};
+
+function commerceMlItem(node: XmlNode): RawItem {
+  const unit = node['БазоваяЕдиница'];
+  const rawQty = text(node, 'Количество');
+  return {
+    sku: text(node, 'Артикул', 'Ид'),
+    name: text(node, 'Наименование'),
+    unit: text(node, 'БазоваяЕдиница') ?? text(unit, 'НаименованиеКраткое', 'НаименованиеПолное'),
+    rawQty,
+    qty: quantity(rawQty),
+    barcodes: barcodes(node),
+  };
+}
+
+function inventoryItem(node: XmlNode, problems: string[]): RawItem {
+  const product = node['Номенклатура'];
+  const rawQty = text(node, 'КоличествоУчет');
+  return {
+    sku: text(product, 'Артикул', 'Код') ?? text(node, 'Артикул'),
+    name: text(product, 'Наименование') ?? text(node, 'Наименование'),
+    unit: text(node, 'ЕдиницаИзмерения'),
+    rawQty,
+    qty: quantity(rawQty),
+    barcodes: barcodes(node),
+    location: text(node, 'МестоХранения'),
+    batches: batches(node, problems),
+    serials: serials(node),
+  };
+}
+
+function fail(issues: ErrorIssue[]): never {
+  throw new BadRequestError(
+    `Invalid XML document: ${issues.length}${issues.length >= MAX_ISSUES ? '+' : ''} error(s)`,
+    { errors: issues },
+  );
+}
+
+export class OnecXml {
+  static isXmlContentType(contentType: string | undefined): boolean {
+    return !!contentType && /^(application|text)\/xml\b/i.test(contentType);
+  }
+
+  // Согласование формата ответа по Accept: XML, только если он предпочтительнее JSON
+  static prefersXml(accept: string | undefined): boolean {
+    if (!accept) return false;
+    let xml = 0;
+    let json = 0;
+    for (const part of accept.split(',')) {
+      const [type, ...params] = part.trim().toLowerCase().split(';');
+      const qParam = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      const q = qParam ? parseFloat(qParam.slice(2)) || 0 : 1;
+      if (type === 'application/xml' || type === 'text/xml') xml = Math.max(xml, q);
+      if (type === 'application/json') json = Math.max(json, q);
+    }
+    return xml > 0 && xml > json;
+  }
+
+  // XML → ImportPayload. Все ошибки собираются разом, с номером строки XML и путём к элементу
+  static parseImport(xml: string): ImportPayload {
+    const valid = XMLValidator.validate(xml);
+    if (valid !== true) {
+      fail([{ line: valid.err.line, message: valid.err.msg }]);
+    }
+
+    const root = parser.parse(xml) as XmlNode;
+    let schema: XmlSchema;
+    let doc: XmlNode;
+    let rows: XmlNode[];
+    let rowTag: string;
+    let rowPath: string;
+    const issues: ErrorIssue[] = [];
+
+    if (root['КоммерческаяИнформация']) {
+      schema = 'commerceml';
+      const docs = asArray<XmlNode>(root['КоммерческаяИнформация']['Документ']);
+      if (docs.length !== 1) {
+        fail([{ path: 'КоммерческаяИнформация/Документ', message: `Exactly one document is expected, got ${docs.length}` }]);
+      }
+      doc = docs[0];
+      rows = asArray<XmlNode>(doc['Товары']?.['Товар']);
+      rowTag = 'Товар';
+      rowPath = 'Документ/Товары/Товар';
+    } else if (root['ИнвентаризацияТоваровНаСкладе']) {
+      schema = 'inventory';
+      doc = root['ИнвентаризацияТоваровНаСкладе'];
+      rows = asArray<XmlNode>(doc['Товары']?.['Строка']);
+      rowTag = 'Строка';
+      rowPath = 'Товары/Строка';
+    } else {
+      fail([{ line: 1, message: 'Root element must be КоммерческаяИнформация or ИнвентаризацияТоваровНаСкладе' }]);
+    }
+
+    const warehouse = doc['Склад'];
+    const date = text(doc, 'Дата');
+    const time = text(doc, 'Время');
+    const header = {
+      externalId: schema === 'commerceml' ? text(doc, 'Ид') : text(doc, 'Ссылка', 'Ид'),
+      onecNumber: text(doc, 'Номер'),
+      onecDate: date && time && !date.includes('T') ? `${date}T${time}` : date,
+      warehouse: { code: text(warehouse, 'Код', 'Ид'), name: text(warehouse, 'Наименование') },
+    };
+    const docPath = schema === 'commerceml' ? 'Документ' : '';
+    const at = (name: string) => (docPath ? `${docPath}/${name}` : name);
+    if (!header.externalId) issues.push({ path: at(schema === 'commerceml' ? 'Ид' : 'Ссылка'), message: 'Document id is required' });
+    if (!header.onecNumber) issues.push({ path: at('Номер'), message: 'Document number is required' });
+    if (!header.onecDate || isNaN(new Date(header.onecDate).getTime())) {
+      issues.push({ path: at('Дата'), message: `Invalid or missing date: ${header.onecDate ?? ''}` });
+    }
+    if (!header.warehouse.code) issues.push({ path: at('Склад'), message: 'Warehouse code is required' });
+    if (rows.length === 0) issues.push({ path: rowPath, message: 'Document has no items' });
+
+    const lines = tagLines(xml, rowTag);
+    const items: ImportPayload['items'] = [];
+    const seen = new Map<string, number>();
+    rows.forEach((row, idx) => {
+      if (issues.length >= MAX_ISSUES) return;
+      const problems: string[] = [];
+      const raw = schema === 'commerceml' ? commerceMlItem(row) : inventoryItem(row, problems);
+      const line = lines[idx];
+      const path = `${rowPath}[${idx + 1}]`;
+      if (!raw.sku) problems.push(schema === 'commerceml' ? 'Артикул or Ид is required' : 'Номенклатура/Артикул or Код is required');
+      if (!raw.name) problems.push('Наименование is required');
+      if (!raw.unit) problems.push(`${schema === 'commerceml' ? 'БазоваяЕдиница' : 'ЕдиницаИзмерения'} is required`);
+      if (raw.qty === undefined) {
+        const field = schema === 'commerceml' ? 'Количество' : 'КоличествоУчет';
+        problems.push(raw.rawQty === undefined ? `${field} is required` : `Invalid ${field}: ${raw.rawQty}`);
+      }
+      if (raw.sku && seen.has(raw.sku)) problems.push(`Duplicate SKU ${raw.sku} (first at item ${seen.get(raw.sku)})`);
+      const tracking = BatchService.validate(raw);
+      if (tracking) problems.push(tracking);
+      if (problems.length > 0) {
+        for (const message of problems) issues.push({ line, path, message });
+        return;
+      }
+      const item = {
+        sku: raw.sku!, name: raw.name!, unit: raw.unit!, qtyFrom1C: raw.qty!, barcodes: raw.barcodes,
+        ...(raw.location ? { location: raw.location } : {}),
+        ...(raw.batches ? { batches: raw.batches } : {}),
+        ...(raw.serials ? { serials: raw.serials } : {}),
+      };
+      // Те же правила, что у строки JSON-импорта: длины полей, неотрицательное количество
+      const errors = importItemErrors(item);
+      if (errors.length > 0) {
+        for (const message of errors) issues.push({ line, path, message });
+        return;
+      }
+      seen.set(raw.sku!, idx + 1);
+      items.push(item);
+    });
+
+    if (issues.length > 0) fail(issues.slice(0, MAX_ISSUES));
+    return {
+      externalId: header.externalId!,
+      onecNumber: header.onecNumber!,
+      onecDate: header.onecDate!,
+      // Наименование склада в выгрузке бывает опущено — тогда склад называется по коду
+      warehouse: { code: header.warehouse.code!, name: header.warehouse.name ?? header.warehouse.code! },
+      items,
+    };
+  }
+
+  static buildExport(data: ExportResponse, schema: XmlSchema): string {
+    const snapshot = [
+      { 'Наименование': 'СнимокВыгрузки', 'Значение': data.snapshotId },
+      { 'Наименование': 'ХешСнимка', 'Значение': data.hash },
+      { 'Наименование': 'ВерсияДокумента', 'Значение': data.documentVersion },
+    ];
+    const unresolvedSurplus = data.unresolvedSurplus.map((row) => ({ 'Штрихкод': row.barcode, 'Количество': row.countedQty }));
+
+    const tree = schema === 'commerceml'
+      ? {
+          'КоммерческаяИнформация': {
+            '@ВерсияСхемы': '2.10',
+            '@ДатаФормирования': new Date(data.createdAt).toISOString().slice(0, 19),
+            'Документ': {
+              'Ид': data.externalId,
+              'ХозОперация': 'Инвентаризация товаров на складе',
+              'Склад': { '@Ид': data.warehouse.code },
+              'Товары': {
+                'Товар': data.items.map((item) => ({
+                  'Ид': item.sku,
+                  'Артикул': item.sku,
+                  'Наименование': item.name,
+                  'БазоваяЕдиница': item.unit,
+                  // В CommerceML у товара один штрихкод — основной (первый)
+                  'Штрихкод': item.barcodes[0],
+                  'Количество': item.correctedQty,
+                  'ЗначенияРеквизитов': {
+                    'ЗначениеРеквизита': [
+                      { 'Наименование': 'КоличествоУчет', 'Значение': item.qtyFrom1C },
+                      { 'Наименование': 'Отклонение', 'Значение': item.deltaQty },
+                      { 'Наименование': 'НоваяСтрока', 'Значение': String(item.isNew) },
+                    ],
+                  },
+                })),
+              },
+              'ЗначенияРеквизитов': { 'ЗначениеРеквизита': snapshot },
+              // Не из стандарта CommerceML: излишки без строки документа, как в схеме inventory
+              'НеопознанныеШтрихкоды': { 'Излишек': unresolvedSurplus },
+            },
+          },
+        }
+      : {
+          'ИнвентаризацияТоваровНаСкладе': {
+            'Ссылка': data.externalId,
+            'Склад': { 'Код': data.warehouse.code },
+            'ЗначенияРеквизитов': { 'ЗначениеРеквизита': snapshot },
+            'Товары': {
+              'Строка': data.items.map((item, idx) => ({
+                'НомерСтроки': idx + 1,
+                'Номенклатура': { 'Артикул': item.sku, 'Наименование': item.name },
+                'ЕдиницаИзмерения': item.unit,
+                'КоличествоУчет': item.qtyFrom1C,
+                'Количество': item.correctedQty,
+                'Отклонение': item.deltaQty,
+                'НоваяСтрока': String(item.isNew),
+                'Штрихкоды': { 'Штрихкод': item.barcodes },
+                ...(item.locations ? {
+                  'МестаХранения': {
+                    'Место': item.locations.map((l) => ({
+                      'Код': l.location ?? '',
+                      'Количество': l.countedQty,
+                      ...(l.correctedQty !== null ? { 'КоличествоКорректировка': l.correctedQty } : {}),
+                    })),
+                  },
+                } : {}),
+                ...(item.batches ? {
+                  'Серии': {
+                    'Серия': item.batches.map((b) => ({
+                      ...(b.batch !== null ? { 'Номер': b.batch } : {}),
+                      ...(b.expiryDate !== null ? { 'СрокГодности': b.expiryDate } : {}),
+                      'КоличествоУчет': b.qtyFrom1C,
+                      'Количество': b.countedQty,
+                      ...(b.correctedQty !== null ? { 'КоличествоКорректировка': b.correctedQty } : {}),
+                      'СерийныеНомера': { 'СерийныйНомер': b.serials },
+                    })),
+                  },
+                } : {}),
+              })),
+            },
+            'НеопознанныеШтрихкоды': { 'Излишек': unresolvedSurplus },
+          },
+        };
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${builder.build(tree)}`;
+  }
+}
@@ -0,0 +1,173 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { NotFoundError, UnprocessableEntityError } from '../errors.js';
+
+// Штрихкод упаковки: unit — единица товара (кратность из units), factor — явная кратность штрихкода
+export interface ProductBarcodeInput {
+  barcode: string;
+  unit?: string;
+  factor?: string;
+}
+
+export interface ProductImportPayload {
+  products: Array<{
+    sku: string;
+    name: string;
+    unit: string;
+    barcodes: Array<string | ProductBarcodeInput>;
+    units?: Array<{ unit: string; factor: string }>; // не передан — единицы товара не меняются
+    isActive?: boolean;
+  }>;
+}
+
+const productInclude = {
+  barcodes: { select: { barcode: true, isPrimary: true, unit: true, factor: true } },
+  units: { select: { unit: true, factor: true }, orderBy: { factor: 'asc' } },
+} satisfies Prisma.ProductInclude;
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  barcodesMoved: number; // штрихкоды, перешедшие от другого товара
+}
+
+export class ProductService {
+  // Синхронизация каталога из 1С: товары по SKU создаются/обновляются, набор штрихкодов
+  // (и единиц, если переданы) товара заменяется присланным. 1С — мастер-данные, поэтому штрихкод,
+  // числившийся за другим товаром, переходит к новому.
+  static async importCatalog(payload: ProductImportPayload): Promise<ProductImportResult> {
+    const importTimeout = parseInt(process.env.IMPORT_TX_TIMEOUT_MS || '120000');
+    return await prisma.$transaction(async (tx) => {
+      const skus = payload.products.map((p) => p.sku);
+      const existing = await tx.product.findMany({ where: { sku: { in: skus } }, select: { id: true, sku: true } });
+      const existingMap = new Map(existing.map((p) => [p.sku, p.id]));
+
+      const result: ProductImportResult = { created: 0, updated: 0, barcodesMoved: 0 };
+      for (const product of payload.products) {
+        const data = { name: product.name, unit: product.unit, isActive: product.isActive ?? true };
+        let productId = existingMap.get(product.sku);
+        if (productId) {
+          await tx.product.update({ where: { id: productId }, data });
+          result.updated++;
+        } else {
+          productId = (await tx.product.create({ data: { sku: product.sku, ...data } })).id;
+          result.created++;
+        }
+        // Строки документов, импортированные до появления товара в каталоге
+        await tx.inventoryItem.updateMany({ where: { sku: product.sku, productId: null }, data: { productId } });
+
+        if (product.units !== undefined) {
+          const zero = product.units.find((u) => new Prisma.Decimal(u.factor).lte(0));
+          if (zero) throw new UnprocessableEntityError(`Unit ${zero.unit} of product ${product.sku} must have a positive factor`);
+          const units = product.units.map((u) => u.unit);
+          await tx.productUnit.deleteMany({ where: { productId, unit: { notIn: units } } });
+          for (const u of product.units) {
+            await tx.productUnit.upsert({
+              where: { productId_unit: { productId, unit: u.unit } },
+              create: { productId, unit: u.unit, factor: new Prisma.Decimal(u.factor) },
+              update: { factor: new Prisma.Decimal(u.factor) },
+            });
+          }
+        }
+
+        const barcodes = await ProductService.barcodePacks(tx, productId, product);
+        const codes = barcodes.map((b) => b.barcode);
+        await tx.productBarcode.deleteMany({ where: { productId, barcode: { notIn: codes } } });
+        if (barcodes.length > 0) {
+          const moved = await tx.productBarcode.deleteMany({
+            where: { barcode: { in: codes }, productId: { not: productId } },
+          });
+          result.barcodesMoved += moved.count;
+          await tx.productBarcode.createMany({
+            data: barcodes.map((b, idx) => ({ ...b, productId: productId!, isPrimary: idx === 0 })),
+            skipDuplicates: true,
+          });
+          // Уже существующим штрихкодам — присланная упаковка
+          const plain = barcodes.filter((b) => b.unit === null).map((b) => b.barcode);
+          if (plain.length > 0) {
+            await tx.productBarcode.updateMany({ where: { barcode: { in: plain } }, data: { unit: null, factor: 1 } });
+          }
+          for (const pack of barcodes.filter((b) => b.unit !== null)) {
+            await tx.productBarcode.update({ where: { barcode: pack.barcode }, data: { unit: pack.unit, factor: pack.factor } });
+          }
+        }
+      }
+
+      return result;
+    }, { maxWait: 15000, timeout: importTimeout });
+  }
+
+  // Кратность каждого штрихкода: явная factor, иначе единица товара unit (базовая — 1)
+  private static async barcodePacks(
+    tx: Prisma.TransactionClient,
+    productId: string,
+    product: ProductImportPayload['products'][number],
+  ) {
+    const inputs = product.barcodes.map((b) => (typeof b === 'string' ? { barcode: b } : b));
+    const needUnits = inputs.some((b) => b.unit !== undefined && b.unit !== product.unit && b.factor === undefined);
+    const units = needUnits ? await tx.productUnit.findMany({ where: { productId } }) : [];
+    const factors = new Map(units.map((u) => [u.unit, u.factor]));
+
+    return inputs.map(({ barcode, unit, factor }) => {
+      if (unit === undefined || (unit === product.unit && factor === undefined)) {
+        return { barcode, unit: null, factor: new Prisma.Decimal(1) };
+      }
+      const packFactor = factor !== undefined ? new Prisma.Decimal(factor) : factors.get(unit);
+      if (!packFactor) {
+        throw new UnprocessableEntityError(`Unit ${unit} of barcode ${barcode} is not defined for product ${product.sku}`);
+      }
+      if (packFactor.lte(0)) throw new UnprocessableEntityError(`Barcode ${barcode} must have a positive factor`);
+      return { barcode, unit, factor: packFactor };
+    });
+  }
+
+  // Товар каталога для строки документа; отсутствующий SKU заводится в каталоге по данным документа,
+  // штрихкоды документа добавляются в каталог, если они там свободны
+  static async ensureProduct(
+    tx: Prisma.TransactionClient,
+    item: { sku: string; name: string; unit: string; barcodes?: string[] },
+  ): Promise<string> {
+    const product = await tx.product.upsert({
+      where: { sku: item.sku },
+      create: { sku: item.sku, name: item.name, unit: item.unit },
+      update: {},
+    });
+    if (item.barcodes && item.barcodes.length > 0) {
+      await tx.productBarcode.createMany({
+        data: item.barcodes.map((barcode) => ({ productId: product.id, barcode })),
+        skipDuplicates: true,
+      });
+    }
+    return product.id;
+  }
+
+  // Поиск для ТСД: точное совпадение штрихкода, иначе SKU по префиксу или название по вхождению
+  static async search(query: string, limit = 20) {
+    const include = productInclude;
+
+    const byBarcode = await prisma.productBarcode.findUnique({
+      where: { barcode: query },
+      include: { product: { include } },
+    });
+    if (byBarcode) return [byBarcode.product];
+
+    return await prisma.product.findMany({
+      where: {
+        isActive: true,
+        OR: [{ sku: { startsWith: query } }, { name: { contains: query } }],
+      },
+      include,
+      orderBy: { sku: 'asc' },
+      take: limit,
+    });
+  }
+
+  static async getBySku(sku: string) {
+    const product = await prisma.product.findUnique({
+      where: { sku },
+      include: productInclude,
+    });
+    if (!product) throw new NotFoundError(`Product ${sku} not found`);
+    return product;
+  }
+}
@@ -0,0 +1,279 @@
+import { Prisma, RecountTaskStatus } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { ChangeJournal } from './change.journal.js';
+import { DocumentLifecycle } from './document.lifecycle.js';
+import { ReconciledItem } from './inventory.reconciliation.service.js';
+import { BadRequestError, ForbiddenError, NotFoundError, UnprocessableEntityError } from '../errors.js';
+import { DocumentResolver } from './document.resolver.js';
+import { LocationService } from './location.service.js';
+
+export interface TolerancePayload {
+  warehouseCode?: string | null;
+  unit?: string | null;
+  absoluteQty?: string | null;
+  percent?: string | null;
+}
+
+export interface RecountResultPayload {
+  countedQty: string;
+  note?: string;
+  locations?: Array<{ location: string; countedQty: string }>; // разбивка countedQty по местам хранения
+}
+
+export interface RecountTaskUpdate {
+  assignedDeviceId?: string | null;
+  status?: 'CANCELLED';
+}
+
+type Tolerance = { warehouseId: string | null; unit: string | null; absoluteQty: Prisma.Decimal | null; percent: Prisma.Decimal | null };
+
+export class RecountService {
+  // Самое частное правило для строки: склад+единица, склад, единица, общее
+  static pickTolerance(tolerances: Tolerance[], warehouseId: string, unit: string): Tolerance | null {
+    const candidates: Array<[string | null, string | null]> = [
+      [warehouseId, unit],
+      [warehouseId, null],
+      [null, unit],
+      [null, null],
+    ];
+    for (const [w, u] of candidates) {
+      const found = tolerances.find((t) => t.warehouseId === w && t.unit === u);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  static exceedsTolerance(item: Pick<ReconciledItem, 'discrepancy' | 'qtyFrom1C'>, tolerance: Tolerance): boolean {
+    if (tolerance.absoluteQty == null && tolerance.percent == null) return false;
+    let allowed = new Prisma.Decimal(0);
+    if (tolerance.absoluteQty != null) allowed = Prisma.Decimal.max(allowed, tolerance.absoluteQty);
+    if (tolerance.percent != null) {
+      allowed = Prisma.Decimal.max(allowed, item.qtyFrom1C.abs().mul(tolerance.percent).div(100));
+    }
+    return item.discrepancy.abs().greaterThan(allowed);
+  }
+
+  static async assertNoOpenTasks(db: Prisma.TransactionClient, documentId: string) {
+    const open = await db.recountTask.count({ where: { documentId, status: 'OPEN' } });
+    if (open > 0) {
+      throw new UnprocessableEntityError(`${open} recount task(s) are still open`);
+    }
+  }
+
+  // Создаёт задания на перепересчёт для строк, где расхождение вне допуска.
+  // Строки, по которым перепересчёт уже был (DONE) или отменён супервизором, повторно не ставятся.
+  static async planRecounts(
+    tx: Prisma.TransactionClient,
+    document: { id: string; warehouseId: string },
+    reconciled: ReconciledItem[],
+  ) {
+    const tolerances = await tx.discrepancyTolerance.findMany({
+      where: { OR: [{ warehouseId: document.warehouseId }, { warehouseId: null }] },
+    });
+    if (tolerances.length === 0) return [];
+
+    const closed = await tx.recountTask.findMany({
+      where: { documentId: document.id, status: { in: ['DONE', 'CANCELLED'] } },
+      select: { itemId: true },
+    });
+    const alreadyRecounted = new Set(closed.map((t) => t.itemId));
+
+    const toRecount = reconciled.filter((item) => {
+      if (alreadyRecounted.has(item.itemId)) return false;
+      const tolerance = RecountService.pickTolerance(tolerances, document.warehouseId, item.unit);
+      return tolerance !== null && RecountService.exceedsTolerance(item, tolerance);
+    });
+    if (toRecount.length === 0) return [];
+
+    // Нагрузка ТСД склада: открытые задания по всем документам
+    const devices = await tx.device.findMany({
+      where: { warehouseId: document.warehouseId, isActive: true },
+      select: { code: true },
+    });
+    const load = new Map(devices.map((d) => [d.code, 0]));
+    const openByDevice = await tx.recountTask.groupBy({
+      by: ['assignedDeviceId'],
+      where: { status: 'OPEN', assignedDeviceId: { in: [...load.keys()] } },
+      _count: { _all: true },
+    });
+    for (const row of openByDevice) {
+      if (row.assignedDeviceId) load.set(row.assignedDeviceId, row._count._all);
+    }
+
+    const created = [];
+    for (const item of toRecount) {
+      const originalDeviceIds = item.devices.map((d) => d.deviceId);
+      // Наименее загруженный ТСД, который не считал эту строку
+      let assignedDeviceId: string | null = null;
+      for (const [code, count] of load) {
+        if (originalDeviceIds.includes(code)) continue;
+        if (assignedDeviceId === null || count < load.get(assignedDeviceId)!) assignedDeviceId = code;
+      }
+      if (assignedDeviceId) load.set(assignedDeviceId, load.get(assignedDeviceId)! + 1);
+
+      created.push(await tx.recountTask.create({
+        data: {
+          documentId: document.id,
+          itemId: item.itemId,
+          discrepancy: item.discrepancy,
+          originalDeviceIds,
+          assignedDeviceId,
+        },
+        include: { item: { select: { sku: true, name: true, unit: true } } },
+      }));
+    }
+    return created;
+  }
+
+  static async listForDocument(id: string, status?: RecountTaskStatus) {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
+    return await prisma.recountTask.findMany({
+      where: { documentId: resolvedId, ...(status ? { status } : {}) },
+      include: { item: { select: { sku: true, name: true, unit: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Открытые задания ТСД. Ожидаемое количество и расхождение не отдаём — перепересчёт всегда слепой
+  static async listForDevice(deviceId: string) {
+    const tasks = await prisma.recountTask.findMany({
+      where: { assignedDeviceId: deviceId, status: 'OPEN' },
+      include: {
+        item: { select: { sku: true, name: true, unit: true } },
+        document: { select: { id: true, externalId: true, onecNumber: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    return tasks.map(({ discrepancy: _d, originalDeviceIds: _o, ...task }) => task);
+  }
+
+  // Результат перепересчёта пишется в журнал записями kind = RECOUNT (по одной на место разбивки) и закрывает задание
+  static async submitResult(taskId: string, payload: RecountResultPayload, deviceId: string, isSupervisor: boolean) {
+    return await prisma.$transaction(async (tx) => {
+      const task = await tx.recountTask.findUnique({ where: { id: taskId }, include: { document: true } });
+      if (!task) throw new NotFoundError('Recount task not found');
+      if (task.status !== 'OPEN') {
+        throw new UnprocessableEntityError(`Recount task is ${task.status}`);
+      }
+      if (!isSupervisor && task.assignedDeviceId !== deviceId) {
+        throw new ForbiddenError('Recount task is assigned to another device');
+      }
+      DocumentLifecycle.assertEditable(task.document);
+
+      const resultQty = new Prisma.Decimal(payload.countedQty);
+      const parts = await RecountService.locationParts(tx, task.document.warehouseId, resultQty, payload.locations);
+      for (const part of parts) {
+        await ChangeJournal.append(tx, {
+          documentId: task.documentId,
+          itemId: task.itemId,
+          deviceId,
+          countedQty: part.countedQty,
+          note: payload.note ?? null,
+          kind: 'RECOUNT',
+          recountTaskId: task.id,
+          locationId: part.locationId,
+        });
+      }
+      return await tx.recountTask.update({
+        where: { id: task.id },
+        data: { status: 'DONE', resultQty, closedBy: deviceId, closedAt: new Date() },
+      });
+    }, { maxWait: 5000, timeout: 10000 });
+  }
+
+  // Супервизор переназначает задание или отменяет его (строка принимается без перепересчёта)
+  static async updateTask(taskId: string, update: RecountTaskUpdate, changedBy: string) {
+    const task = await prisma.recountTask.findUnique({
+      where: { id: taskId },
+      include: { document: { select: { warehouseId: true, warehouseCode: true } } },
+    });
+    if (!task) throw new NotFoundError('Recount task not found');
+    if (task.status !== 'OPEN') {
+      throw new UnprocessableEntityError(`Recount task is ${task.status}`);
+    }
+
+    const data: Prisma.RecountTaskUpdateInput = {};
+    if (update.assignedDeviceId !== undefined) {
+      if (update.assignedDeviceId !== null) {
+        const originals = task.originalDeviceIds as string[];
+        if (originals.includes(update.assignedDeviceId)) {
+          throw new BadRequestError('Recount must be assigned to a device other than the original counter');
+        }
+        const device = await prisma.device.findUnique({ where: { code: update.assignedDeviceId } });
+        if (!device) throw new NotFoundError(`Device ${update.assignedDeviceId} not found`);
+        if (device.warehouseId !== task.document.warehouseId) {
+          throw new UnprocessableEntityError(
+            `Device ${update.assignedDeviceId} belongs to another warehouse than document's ${task.document.warehouseCode}`,
+          );
+        }
+      }
+      data.assignedDeviceId = update.assignedDeviceId;
+    }
+    if (update.status === 'CANCELLED') {
+      data.status = 'CANCELLED';
+      data.closedBy = changedBy;
+      data.closedAt = new Date();
+    }
+    return await prisma.recountTask.update({ where: { id: task.id }, data });
+  }
+
+  static async listTolerances() {
+    return await prisma.discrepancyTolerance.findMany({
+      include: { warehouse: { select: { code: true } } },
+      orderBy: [{ warehouseId: 'asc' }, { unit: 'asc' }],
+    });
+  }
+
+  // Правило для пары (склад, единица); null в полях — «для всех»
+  static async setTolerance(payload: TolerancePayload) {
+    let warehouseId: string | null = null;
+    if (payload.warehouseCode) {
+      const warehouse = await prisma.warehouse.findUnique({ where: { code: payload.warehouseCode } });
+      if (!warehouse) throw new NotFoundError(`Warehouse ${payload.warehouseCode} not found`);
+      warehouseId = warehouse.id;
+    }
+    const unit = payload.unit || null;
+    const data = {
+      absoluteQty: payload.absoluteQty != null ? new Prisma.Decimal(payload.absoluteQty) : null,
+      percent: payload.percent != null ? new Prisma.Decimal(payload.percent) : null,
+    };
+
+    // Составной unique с NULL в MySQL не уникален, поэтому ищем вручную
+    const existing = await prisma.discrepancyTolerance.findFirst({ where: { warehouseId, unit } });
+    if (existing) {
+      return await prisma.discrepancyTolerance.update({ where: { id: existing.id }, data });
+    }
+    return await prisma.discrepancyTolerance.create({ data: { warehouseId, unit, ...data } });
+  }
+
+  static async deleteTolerance(id: string) {
+    const existing = await prisma.discrepancyTolerance.findUnique({ where: { id } });
+    if (!existing) throw new NotFoundError('Tolerance not found');
+    await prisma.discrepancyTolerance.delete({ where: { id } });
+    return { success: true };
+  }
+
+  // Разбивка результата по местам хранения: сумма должна совпасть с countedQty, место — с одного склада с документом.
+  // Без разбивки результат пишется одной записью без места
+  private static async locationParts(
+    tx: Prisma.TransactionClient,
+    warehouseId: string,
+    total: Prisma.Decimal,
+    locations: RecountResultPayload['locations'],
+  ): Promise<Array<{ locationId: string | null; countedQty: Prisma.Decimal }>> {
+    if (!locations || locations.length === 0) return [{ locationId: null, countedQty: total }];
+    const parts: Array<{ locationId: string; countedQty: Prisma.Decimal }> = [];
+    for (const entry of locations) {
+      const location = await LocationService.resolve(tx, warehouseId, entry.location);
+      if (parts.some((p) => p.locationId === location.id)) {
+        throw new BadRequestError(`Location ${entry.location} is listed twice`);
+      }
+      parts.push({ locationId: location.id, countedQty: new Prisma.Decimal(entry.countedQty) });
+    }
+    const sum = parts.reduce((acc, p) => acc.add(p.countedQty), new Prisma.Decimal(0));
+    if (!sum.equals(total)) {
+      throw new BadRequestError(`Recount locations sum up to ${sum.toString()}, countedQty is ${total.toString()}`);
+    }
+    return parts;
+  }
+}
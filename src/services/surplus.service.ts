@@ -0,0 +1,204 @@
+import { Prisma, SurplusStatus } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { ChangeJournal } from './change.journal.js';
+import { DocumentLifecycle } from './document.lifecycle.js';
+import { DocumentEvents } from './document.events.js';
+import { InventoryReconciliationService } from './inventory.reconciliation.service.js';
+import { BadRequestError, NotFoundError, ConflictError, UnprocessableEntityError } from '../errors.js';
+import { DocumentResolver } from './document.resolver.js';
+
+export interface SurplusCreateItemPayload {
+  sku: string;
+  name?: string; // не заданы — берутся из каталога товаров
+  unit?: string;
+}
+
+type SurplusLine = Prisma.InventorySurplusLineGetPayload<object>;
+
+export class SurplusService {
+  // Учёт скана неизвестного штрихкода: счёт устройства по штрихкоду в месте хранения копится в одной строке
+  // излишка, каждая операция пишется в журнал InventorySurplusChange.
+  // mode: add — прибавить к своему счёту (v1, sync), set — заменить свой счёт (v2, sync).
+  static async record(
+    tx: Prisma.TransactionClient,
+    documentId: string,
+    barcode: string,
+    deviceId: string,
+    locationId: string | null,
+    qty: Prisma.Decimal,
+    mode: 'add' | 'set',
+    options: { opId?: string; note?: string; scan?: string } = {},
+  ): Promise<SurplusLine> {
+    const locationKey = locationId ?? '';
+    const existing = await tx.inventorySurplusLine.findUnique({
+      where: { documentId_barcode_deviceId_locationKey: { documentId, barcode, deviceId, locationKey } },
+    });
+    // Штрихкод уже отнесён к строке, но скан всё равно не нашёлся (например, 1С перезаписала штрихкоды) —
+    // открываем излишек заново с нуля
+    const reopen = existing !== null && existing.status !== 'OPEN';
+    const base = existing && !reopen ? existing.countedQty : new Prisma.Decimal(0);
+    const countedQty = mode === 'add' ? base.add(qty) : qty;
+
+    const line = existing
+      ? await tx.inventorySurplusLine.update({
+          where: { id: existing.id },
+          data: {
+            countedQty,
+            ...(options.note !== undefined ? { note: options.note } : {}),
+            ...(reopen ? { status: 'OPEN', itemId: null, resolvedBy: null, resolvedAt: null } : {}),
+          },
+        })
+      : await tx.inventorySurplusLine.create({
+          data: { documentId, barcode, deviceId, locationId, locationKey, countedQty, note: options.note ?? null },
+        });
+
+    await tx.inventorySurplusChange.create({
+      data: { opId: options.opId ?? null, surplusLineId: line.id, deviceId, countedQty, scan: options.scan ?? null },
+    });
+    return line;
+  }
+
+  static async list(id: string, status?: SurplusStatus) {
+    const resolvedId = await DocumentResolver.resolve(prisma, id);
+    return await prisma.inventorySurplusLine.findMany({
+      where: { documentId: resolvedId, ...(status ? { status } : {}) },
+      include: {
+        item: { select: { sku: true, name: true, unit: true } },
+        location: { select: { code: true } },
+        // Исходные сканы GS1: barcode строки — только их GTIN
+        changes: {
+          where: { scan: { not: null } },
+          select: { scan: true, countedQty: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: [{ barcode: 'asc' }, { deviceId: 'asc' }, { locationKey: 'asc' }],
+    });
+  }
+
+  // Отнести излишек к существующей строке документа
+  static async mapToItem(id: string, lineId: string, sku: string, resolvedBy: string) {
+    return await SurplusService.resolve(id, lineId, resolvedBy, async (tx, document) => {
+      const item = await tx.inventoryItem.findUnique({
+        where: { documentId_sku: { documentId: document.id, sku } },
+      });
+      if (!item) throw new NotFoundError(`Item with SKU ${sku} not found`);
+      return { item, status: 'MAPPED' as const };
+    });
+  }
+
+  // Создать по излишку новую строку документа (qtyFrom1C = 0)
+  static async createItem(id: string, lineId: string, payload: SurplusCreateItemPayload, resolvedBy: string) {
+    return await SurplusService.resolve(id, lineId, resolvedBy, async (tx, document) => {
+      const existing = await tx.inventoryItem.findUnique({
+        where: { documentId_sku: { documentId: document.id, sku: payload.sku } },
+      });
+      if (existing) throw new ConflictError(`Item with SKU ${payload.sku} already exists`);
+
+      const product = await tx.product.findUnique({ where: { sku: payload.sku } });
+      const name = payload.name ?? product?.name;
+      const unit = payload.unit ?? product?.unit;
+      if (!name || !unit) {
+        throw new BadRequestError(`Product ${payload.sku} is not in the catalog, name and unit are required`);
+      }
+      const item = await tx.inventoryItem.create({
+        data: {
+          documentId: document.id,
+          sku: payload.sku,
+          name,
+          unit,
+          qtyFrom1C: new Prisma.Decimal(0),
+          source: 'SURPLUS',
+          productId: product?.id ?? null,
+        },
+      });
+      return { item, status: 'CREATED' as const };
+    });
+  }
+
+  // Общая часть map/create: штрихкод привязывается к строке, а открытые излишки всех устройств
+  // по этому штрихкоду переносятся в журнал строки как пересчёт соответствующего устройства в том же месте
+  private static async resolve(
+    id: string,
+    lineId: string,
+    resolvedBy: string,
+    pickItem: (
+      tx: Prisma.TransactionClient,
+      document: { id: string },
+    ) => Promise<{ item: { id: string; countedQty: Prisma.Decimal | null }; status: 'MAPPED' | 'CREATED' }>,
+  ) {
+    let documentId = '';
+    const result = await prisma.$transaction(async (tx) => {
+      const resolvedId = await DocumentResolver.resolve(tx, id);
+      const document = await tx.inventoryDocument.findUnique({ where: { id: resolvedId } });
+      if (!document) throw new NotFoundError('Document not found');
+      DocumentLifecycle.assertEditable(document);
+      documentId = document.id;
+
+      const line = await tx.inventorySurplusLine.findUnique({ where: { id: lineId } });
+      if (!line || line.documentId !== document.id) {
+        throw new NotFoundError('Surplus line not found');
+      }
+      if (line.status !== 'OPEN') {
+        throw new UnprocessableEntityError(`Surplus line is already ${line.status}`);
+      }
+
+      const taken = await tx.inventoryItemBarcode.findUnique({
+        where: { documentId_barcode: { documentId: document.id, barcode: line.barcode } },
+      });
+      if (taken) {
+        throw new ConflictError(`Barcode ${line.barcode} is already assigned to another item`);
+      }
+
+      const { item, status } = await pickItem(tx, document);
+      await tx.inventoryItemBarcode.create({
+        data: { documentId: document.id, itemId: item.id, barcode: line.barcode, isPrimary: status === 'CREATED' },
+      });
+
+      const lines = await tx.inventorySurplusLine.findMany({
+        where: { documentId: document.id, barcode: line.barcode, status: 'OPEN' },
+      });
+      let countedQty = item.countedQty ?? new Prisma.Decimal(0);
+      for (const surplus of lines) {
+        const prev = await InventoryReconciliationService.latestDeviceValue(
+          tx, item.id, surplus.deviceId, surplus.locationId, null, 'countedQty',
+        );
+        await ChangeJournal.append(tx, {
+          documentId: document.id,
+          itemId: item.id,
+          deviceId: surplus.deviceId,
+          countedQty: prev.add(surplus.countedQty),
+          note: surplus.note,
+          locationId: surplus.locationId,
+        });
+        countedQty = countedQty.add(surplus.countedQty);
+      }
+      await tx.inventorySurplusLine.updateMany({
+        where: { id: { in: lines.map((l) => l.id) } },
+        data: { status, itemId: item.id, resolvedBy, resolvedAt: new Date() },
+      });
+
+      const updatedItem = await tx.inventoryItem.update({ where: { id: item.id }, data: { countedQty } });
+      const updatedDocument = await tx.inventoryDocument.update({
+        where: { id: document.id },
+        data: { version: { increment: 1 } },
+      });
+      return {
+        success: true,
+        version: updatedDocument.version,
+        status,
+        item: updatedItem,
+        resolvedLines: lines.map((l) => l.id),
+      };
+    }, { maxWait: 5000, timeout: 10000 });
+
+    DocumentEvents.publish({
+      type: 'items.changed',
+      documentId,
+      version: result.version,
+      deviceId: resolvedBy,
+      items: [DocumentEvents.toItemState(result.item)],
+    });
+    return result;
+  }
+}
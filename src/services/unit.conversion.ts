@@ -0,0 +1,56 @@
+import { Prisma } from '@prisma/client';
+import { UnprocessableEntityError } from '../errors.js';
+import { BarcodeMatch } from './item.lookup.js';
+
+// Единица, в которой ТСД прислал countedQty, и её кратность базовой единице строки
+export interface ScanUnit {
+  unit: string | null; // null — базовая единица строки
+  factor: Prisma.Decimal;
+}
+
+const BASE: ScanUnit = { unit: null, factor: new Prisma.Decimal(1) };
+
+// Пересчёт количества ТСД в базовую единицу строки (InventoryItem.unit).
+// Явная unit операции ищется среди единиц товара каталога (ProductUnit), иначе действует упаковка
+// отсканированного штрихкода, иначе количество уже в базовой единице. correctedQty не пересчитывается.
+export class UnitConversion {
+  // null — единица не заведена для товара
+  static async find(
+    tx: Prisma.TransactionClient,
+    item: { unit: string; productId: string | null },
+    unit: string | undefined,
+    scanned: BarcodeMatch | null,
+  ): Promise<ScanUnit | null> {
+    if (unit === undefined) return scanned?.unit ? { unit: scanned.unit, factor: scanned.factor } : BASE;
+    if (unit === item.unit) return BASE;
+
+    const conversion = item.productId
+      ? await tx.productUnit.findUnique({ where: { productId_unit: { productId: item.productId, unit } } })
+      : null;
+    return conversion && { unit, factor: conversion.factor };
+  }
+
+  static async resolve(
+    tx: Prisma.TransactionClient,
+    item: { sku: string; unit: string; productId: string | null },
+    unit: string | undefined,
+    scanned: BarcodeMatch | null,
+  ): Promise<ScanUnit> {
+    const scanUnit = await UnitConversion.find(tx, item, unit, scanned);
+    if (!scanUnit) throw new UnprocessableEntityError(UnitConversion.unknownUnitMessage(item, unit!));
+    return scanUnit;
+  }
+
+  static unknownUnitMessage(item: { sku: string }, unit: string): string {
+    return `Unit ${unit} is not defined for item ${item.sku}`;
+  }
+
+  static toBase(qty: Prisma.Decimal, scanUnit: ScanUnit): Prisma.Decimal {
+    return qty.mul(scanUnit.factor);
+  }
+
+  // Поля журнала InventoryItemChange: что прислал ТСД и сколько это в базовой единице
+  static journal(qty: Prisma.Decimal, scanUnit: ScanUnit) {
+    return { scanUnit: scanUnit.unit, scanQty: qty, baseQty: UnitConversion.toBase(qty, scanUnit) };
+  }
+}
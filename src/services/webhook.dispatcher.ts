@@ -0,0 +1,121 @@
+import { prisma } from '../prisma.js';
+import { WebhookService, WEBHOOK_MAX_ATTEMPTS } from './webhook.service.js';
+import { logError } from '../errors.js';
+
+const POLL_MS = parseInt(process.env.WEBHOOK_POLL_MS || '2000');
+const TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '10000');
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// Доставка берётся «в аренду»: если процесс упал посреди отправки, после аренды её подхватят снова
+const LEASE_MS = TIMEOUT_MS * 3;
+const BATCH_SIZE = 20;
+
+// Диспетчер outbox вебхуков. Доставка «хотя бы один раз»: получатель дедуплицирует по deliveryId.
+export class WebhookDispatcher {
+  private static timer: NodeJS.Timeout | null = null;
+  private static stopped = true;
+
+  static start() {
+    WebhookDispatcher.stopped = false;
+    WebhookDispatcher.schedule(0);
+  }
+
+  static stop() {
+    WebhookDispatcher.stopped = true;
+    if (WebhookDispatcher.timer) clearTimeout(WebhookDispatcher.timer);
+    WebhookDispatcher.timer = null;
+  }
+
+  private static schedule(delayMs: number) {
+    if (WebhookDispatcher.stopped) return;
+    WebhookDispatcher.timer = setTimeout(async () => {
+      let sent = 0;
+      try {
+        sent = await WebhookDispatcher.dispatchDue();
+      } catch (err) {
+        logError('Webhook dispatcher error', err);
+      }
+      // Полная пачка — вероятно, есть ещё, не ждём интервал
+      WebhookDispatcher.schedule(sent >= BATCH_SIZE ? 0 : POLL_MS);
+    }, delayMs);
+  }
+
+  private static async dispatchDue(): Promise<number> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
+      select: { id: true, nextAttemptAt: true },
+    });
+
+    let sent = 0;
+    for (const candidate of due) {
+      // Захват: условный UPDATE по nextAttemptAt, второй экземпляр эту доставку уже не возьмёт
+      const claimed = await prisma.webhookDelivery.updateMany({
+        where: { id: candidate.id, status: 'PENDING', nextAttemptAt: candidate.nextAttemptAt },
+        data: { nextAttemptAt: new Date(Date.now() + LEASE_MS), attempts: { increment: 1 } },
+      });
+      if (claimed.count === 0) continue;
+      await WebhookDispatcher.deliver(candidate.id);
+      sent++;
+    }
+    return sent;
+  }
+
+  private static async deliver(id: string) {
+    const delivery = await prisma.webhookDelivery.findUnique({ where: { id }, include: { endpoint: true } });
+    if (!delivery) return;
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await fetch(delivery.endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${WebhookService.sign(delivery.endpoint.secret, timestamp, body)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      if (!response.ok) error = (await response.text().catch(() => '')).slice(0, 1000) || `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const durationMs = Date.now() - startedAt;
+    await prisma.webhookDeliveryAttempt.create({
+      data: { deliveryId: id, attempt: delivery.attempts, statusCode, error, durationMs },
+    });
+
+    if (!error) {
+      await prisma.webhookDelivery.update({
+        where: { id },
+        data: { status: 'DELIVERED', lastStatusCode: statusCode, lastError: null, deliveredAt: new Date() },
+      });
+      return;
+    }
+
+    // После ручного повтора задержка считается заново — от первой попытки нового круга
+    const maxAttempts = delivery.maxAttempts ?? WEBHOOK_MAX_ATTEMPTS;
+    const roundAttempt = Math.max(1, delivery.attempts - (maxAttempts - WEBHOOK_MAX_ATTEMPTS));
+    const exhausted = delivery.attempts >= maxAttempts;
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (roundAttempt - 1));
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: exhausted ? 'FAILED' : 'PENDING',
+        lastStatusCode: statusCode,
+        lastError: error,
+        nextAttemptAt: new Date(Date.now() + delay),
+      },
+    });
+  }
+}
@@ -0,0 +1,164 @@
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+import { DocStatus, Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { InventoryService } from './inventory.service.js';
+import { NotFoundError, UnprocessableEntityError } from '../errors.js';
+
+export const WEBHOOK_EVENTS = ['document.revised', 'document.exported', 'document.reopened'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '10');
+
+export interface WebhookEndpointPayload {
+  name: string;
+  url: string;
+  secret?: string;
+  warehouseCode?: string | null;
+  events?: WebhookEvent[];
+}
+
+export interface WebhookEndpointUpdate {
+  url?: string;
+  events?: WebhookEvent[];
+  isActive?: boolean;
+  rotateSecret?: boolean;
+}
+
+// Событие вебхука по переходу статуса; остальные переходы (импорт) вебхуков не порождают
+function eventForTransition(from: DocStatus, to: DocStatus): WebhookEvent | null {
+  if (to === 'REVISED') return 'document.revised';
+  if (to === 'EXPORTED') return 'document.exported';
+  if (from === 'REVISED' && to === 'IMPORTED') return 'document.reopened';
+  return null;
+}
+
+const endpointSelect = {
+  id: true,
+  name: true,
+  url: true,
+  events: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  warehouse: { select: { code: true } },
+} satisfies Prisma.WebhookEndpointSelect;
+
+export class WebhookService {
+  // Подпись тела: HMAC-SHA256(secret, `${timestamp}.${body}`), hex.
+  // Метка времени входит в подпись, чтобы получатель мог отбрасывать повторы старых запросов.
+  static sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  // Outbox: доставки создаются в транзакции перехода статуса, поэтому вебхук уходит тогда и только тогда,
+  // когда переход зафиксирован. Payload — данные выгрузки (как /export) на момент перехода.
+  static async enqueueForTransition(
+    tx: Prisma.TransactionClient,
+    document: { id: string; warehouseId: string; status: DocStatus; version: number },
+    from: DocStatus,
+    changedBy: string,
+  ) {
+    const event = eventForTransition(from, document.status);
+    if (!event) return;
+
+    const endpoints = await tx.webhookEndpoint.findMany({
+      where: { isActive: true, OR: [{ warehouseId: document.warehouseId }, { warehouseId: null }] },
+    });
+    const subscribed = endpoints.filter((e) => (e.events as string[]).includes(event));
+    if (subscribed.length === 0) return;
+
+    const data = await InventoryService.buildExport(tx, document.id);
+    const occurredAt = new Date().toISOString();
+    for (const endpoint of subscribed) {
+      // id доставки входит в тело — получатель по нему отбрасывает повторную доставку
+      const deliveryId = randomUUID();
+      const payload = { deliveryId, event, occurredAt, documentId: document.id, status: document.status, version: document.version, changedBy, data };
+      await tx.webhookDelivery.create({
+        data: { id: deliveryId, endpointId: endpoint.id, event, documentId: document.id, payload: JSON.parse(JSON.stringify(payload)) },
+      });
+    }
+  }
+
+  static async createEndpoint(payload: WebhookEndpointPayload) {
+    let warehouseId: string | null = null;
+    if (payload.warehouseCode) {
+      const warehouse = await prisma.warehouse.findUnique({ where: { code: payload.warehouseCode } });
+      if (!warehouse) throw new NotFoundError(`Warehouse ${payload.warehouseCode} not found`);
+      warehouseId = warehouse.id;
+    }
+    const secret = payload.secret || randomBytes(32).toString('base64url');
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        name: payload.name,
+        url: payload.url,
+        secret,
+        warehouseId,
+        events: payload.events ?? [...WEBHOOK_EVENTS],
+      },
+      select: endpointSelect,
+    });
+    // Секрет возвращается только при создании и ротации
+    return { ...endpoint, secret };
+  }
+
+  static async listEndpoints() {
+    return await prisma.webhookEndpoint.findMany({ select: endpointSelect, orderBy: { createdAt: 'asc' } });
+  }
+
+  static async updateEndpoint(id: string, update: WebhookEndpointUpdate) {
+    const existing = await prisma.webhookEndpoint.findUnique({ where: { id } });
+    if (!existing) throw new NotFoundError('Webhook endpoint not found');
+
+    const secret = update.rotateSecret ? randomBytes(32).toString('base64url') : undefined;
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: {
+        ...(update.url !== undefined ? { url: update.url } : {}),
+        ...(update.events !== undefined ? { events: update.events } : {}),
+        ...(update.isActive !== undefined ? { isActive: update.isActive } : {}),
+        ...(secret ? { secret } : {}),
+      },
+      select: endpointSelect,
+    });
+    return secret ? { ...endpoint, secret } : endpoint;
+  }
+
+  // Журнал доставок получателя с попытками
+  static async listDeliveries(endpointId: string, limit = 50) {
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: endpointId } });
+    if (!endpoint) throw new NotFoundError('Webhook endpoint not found');
+    return await prisma.webhookDelivery.findMany({
+      where: { endpointId },
+      select: {
+        id: true,
+        event: true,
+        documentId: true,
+        status: true,
+        attempts: true,
+        nextAttemptAt: true,
+        lastStatusCode: true,
+        lastError: true,
+        createdAt: true,
+        deliveredAt: true,
+        attemptLog: { orderBy: { attempt: 'asc' } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  // Повторная отправка доставки, исчерпавшей попытки
+  static async retryDelivery(id: string) {
+    const delivery = await prisma.webhookDelivery.findUnique({ where: { id } });
+    if (!delivery) throw new NotFoundError('Webhook delivery not found');
+    if (delivery.status !== 'FAILED') {
+      throw new UnprocessableEntityError(`Delivery is ${delivery.status}`);
+    }
+    // Счётчик попыток не сбрасывается, чтобы номера в журнале попыток не повторялись: повтор добавляет
+    // ещё WEBHOOK_MAX_ATTEMPTS попыток сверх уже сделанных
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: { status: 'PENDING', maxAttempts: delivery.attempts + WEBHOOK_MAX_ATTEMPTS, nextAttemptAt: new Date() },
+    });
+    return { success: true };
+  }
+}
@@ -0,0 +1,51 @@
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// Тестовый получатель вебхуков: проверяет подпись и печатает события.
+// Запуск: WEBHOOK_SECRET=<секрет получателя> npm run webhook:stub
+const PORT = parseInt(process.env.PORT || '4000');
+const SECRET = process.env.WEBHOOK_SECRET || '';
+// Допустимое расхождение часов отправителя и получателя
+const TOLERANCE_SEC = 300;
+
+const seen = new Set<string>();
+
+function verify(timestamp: string, signature: string, body: string): boolean {
+  const expected = `sha256=${createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')}`;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const timestamp = String(req.headers['x-webhook-timestamp'] ?? '');
+    const signature = String(req.headers['x-webhook-signature'] ?? '');
+    const deliveryId = String(req.headers['x-webhook-delivery'] ?? '');
+
+    if (Math.abs(Date.now() / 1000 - parseInt(timestamp)) > TOLERANCE_SEC || !verify(timestamp, signature, body)) {
+      console.log(`✗ rejected ${deliveryId}: bad signature or timestamp`);
+      res.writeHead(401).end();
+      return;
+    }
+
+    // Доставка «хотя бы один раз»: повтор с тем же id подтверждаем, но не обрабатываем
+    if (seen.has(deliveryId)) {
+      console.log(`↺ duplicate ${deliveryId}`);
+      res.writeHead(200).end();
+      return;
+    }
+    seen.add(deliveryId);
+
+    const event = JSON.parse(body);
+    console.log(`✓ ${event.event} document=${event.documentId} status=${event.status} version=${event.version} items=${event.data?.items?.length ?? 0}`);
+    res.writeHead(200).end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook stub listening on port ${PORT}${SECRET ? '' : ' (WEBHOOK_SECRET is empty!)'}`);
+});